@@ -1,5 +1,5 @@
-import React from "react";
-import { collectHeadElement } from "./HeadManager.js";
+import React, { useContext } from "react";
+import { collectHeadElement, HeadContext } from "./HeadManager.js";
 
 interface HeadProps {
   children: React.ReactNode;
@@ -25,12 +25,17 @@ interface HeadProps {
  * }
  * ```
  *
- * Elements are merged with the Layout's <head>:
- * - <title> replaces the existing title
- * - <meta name="X"> replaces existing meta with the same name
+ * Elements are merged with the Layout's <head>, the page winning over its layouts
+ * (and nested layouts over the root one), whatever the order they render in:
+ * - <title>, <meta charset>, <meta name|property|http-equiv="X">, <link rel="canonical">
+ *   and <link rel="alternate" hreflang="X"> replace the existing element of the same kind
+ * - on other elements, an explicit `key` (e.g. on JSON-LD scripts) makes elements of the same
+ *   tag with that key replace each other
+ * - <html> and <body> set attributes on the document (e.g. <html lang="en" />)
  * - Everything else is appended
+ * Fragments and components (e.g. <Head><Seo /></Head>) are merged element by element.
  */
 export const Head: React.FC<HeadProps> = ({ children }) => {
-  collectHeadElement(children);
+  collectHeadElement(children, useContext(HeadContext));
   return null;
 };
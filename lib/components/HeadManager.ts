@@ -2,18 +2,62 @@ import React from "react";
 import ReactDOMServer from "react-dom/server";
 
 const GLOBAL_KEY = "__staticjs_head_elements__";
+const CONTEXT_KEY = "__staticjs_head_context__";
+
+/**
+ * Children of a <Head> element, with the depth of the component tree it was rendered
+ * in: 0 for the root layout, then one more for each nested layout, the page deepest
+ */
+export interface CollectedHead {
+  children: React.ReactNode;
+  depth: number;
+}
+
+/**
+ * Head children collected during one render, in render order
+ */
+export type HeadCollector = CollectedHead[];
+
+/**
+ * Value of HeadContext: the collector of the current render, and the depth of the
+ * layout or page being rendered
+ */
+export interface HeadContextValue {
+  collector: HeadCollector;
+  depth: number;
+}
 
 // Use globalThis to ensure a single shared state across module instances
 // (symlinked packages can cause Node.js to load the same file as separate modules)
-function getHeadElements(): React.ReactNode[] {
+function getHeadElements(): HeadCollector {
   if (!(globalThis as any)[GLOBAL_KEY]) {
     (globalThis as any)[GLOBAL_KEY] = [];
   }
   return (globalThis as any)[GLOBAL_KEY];
 }
 
+if (!(globalThis as any)[CONTEXT_KEY]) {
+  (globalThis as any)[CONTEXT_KEY] = React.createContext<HeadContextValue | null>(null);
+}
+
 /**
- * Clear collected head elements. Call before each renderToString().
+ * Collector of the current render. Each render provides its own, so concurrent
+ * renders never see each other's <Head> elements.
+ */
+export const HeadContext: React.Context<HeadContextValue | null> = (globalThis as any)[CONTEXT_KEY];
+
+/**
+ * Render children at a depth of the layout tree (see composeLayouts), recorded
+ * on the <Head> elements they render
+ */
+export function HeadDepth({ depth, children }: { depth: number; children: React.ReactNode }): React.ReactElement {
+  const context = React.useContext(HeadContext);
+  return React.createElement(HeadContext.Provider, { value: context && { ...context, depth } }, children);
+}
+
+/**
+ * Clear the head elements collected outside of a HeadContext provider
+ * (legacy renders that call it before each renderToString())
  */
 export function resetHeadElements(): void {
   (globalThis as any)[GLOBAL_KEY] = [];
@@ -21,78 +65,205 @@ export function resetHeadElements(): void {
 
 /**
  * Register head children during SSR render. Called by the <Head> component.
+ * @param context - Collector and depth of the current render; without them, the elements
+ *   go to a process-wide list, which concurrent renders share, at depth 0
+ */
+export function collectHeadElement(children: React.ReactNode, context: HeadContextValue | null = null): void {
+  (context?.collector ?? getHeadElements()).push({ children, depth: context?.depth ?? 0 });
+}
+
+type Attributes = { [name: string]: string | true };
+
+/**
+ * A head element, rendered to HTML, with the key deciding which elements replace each other
+ */
+interface HeadTag {
+  key: string;
+  html: string;
+}
+
+/**
+ * <link rel> values a document can only have once
  */
-export function collectHeadElement(children: React.ReactNode): void {
-  getHeadElements().push(children);
+const SINGLE_LINK_RELS = ["canonical", "manifest", "prev", "next"];
+
+/**
+ * Elements a component rendered in <Head> can produce: paired head elements, void ones,
+ * and the opening tags of <html> and <body> (React renders a <head> inside <html>)
+ */
+const RENDERED_HEAD_TAGS = /<(title|script|style|noscript)\b[^>]*>[\s\S]*?<\/\1>|<(meta|link|base|html|body)\b[^>]*>/gi;
+
+/**
+ * Children of <Head> as a flat list of elements, fragments replaced by their children
+ */
+function flattenHeadChildren(children: React.ReactNode): React.ReactElement[] {
+  const elements: React.ReactElement[] = [];
+  React.Children.forEach(children, (child) => {
+    if (!React.isValidElement(child)) return;
+    if (child.type === React.Fragment) {
+      elements.push(...flattenHeadChildren((child.props as { children?: React.ReactNode }).children));
+    } else {
+      elements.push(child);
+    }
+  });
+  return elements;
+}
+
+/**
+ * Opening-tag attributes of rendered markup (React always quotes values with ")
+ */
+function parseAttributes(tagHtml: string): Attributes {
+  const attributes: Attributes = {};
+  const openingTag = tagHtml.match(/^<[a-zA-Z]+([^>]*?)\/?>/)?.[1] || "";
+  for (const [, name, value] of openingTag.matchAll(/([^\s=/>]+)(?:="([^"]*)")?/g)) {
+    attributes[name.toLowerCase()] = value ?? true;
+  }
+  return attributes;
+}
+
+/**
+ * Key identifying a head element: elements with the same key replace each other
+ * - <title>, <base>, <meta charset>
+ * - <meta> by name, property (og:*) or http-equiv
+ * - <link> by rel and hreflang for alternates, by rel for canonical, manifest, prev
+ *   and next, by rel and href otherwise
+ * - for other elements, an explicit React `key` (e.g. for JSON-LD scripts), scoped by tag
+ *   name, so that index keys of unrelated lists don't collide
+ * Other elements are keyed by their markup, so only exact duplicates are merged.
+ */
+function getHeadTagKey(tagName: string, attributes: Attributes, html: string, explicitKey?: string | null): string {
+  if (tagName === "title" || tagName === "base") return tagName;
+
+  if (tagName === "meta") {
+    if (attributes.charset) return "meta:charset";
+    for (const attribute of ["name", "property", "http-equiv"]) {
+      if (typeof attributes[attribute] === "string") {
+        return `meta:${attribute}:${(attributes[attribute] as string).toLowerCase()}`;
+      }
+    }
+  }
+
+  if (tagName === "link" && typeof attributes.rel === "string") {
+    const rel = attributes.rel.toLowerCase();
+    if (typeof attributes.hreflang === "string") return `link:${rel}:hreflang:${attributes.hreflang.toLowerCase()}`;
+    if (SINGLE_LINK_RELS.includes(rel)) return `link:${rel}`;
+    return `link:${rel}:${attributes.href}`;
+  }
+
+  if (explicitKey) return `${tagName}:key:${explicitKey}`;
+
+  return html;
+}
+
+/**
+ * Set attributes on the first opening tag of an element (<html> or <body>).
+ * Classes are added to the existing ones, other attributes replace them.
+ */
+function mergeTagAttributes(html: string, tagName: string, attributes: Attributes): string {
+  return html.replace(new RegExp(`<${tagName}(\\s[^>]*)?>`, "i"), (openingTag) => {
+    const merged = parseAttributes(openingTag);
+    for (const [name, value] of Object.entries(attributes)) {
+      if (name === "class" && typeof merged.class === "string" && typeof value === "string") {
+        merged.class = [...new Set([...merged.class.split(/\s+/), ...value.split(/\s+/)])].filter(Boolean).join(" ");
+      } else {
+        merged[name] = value;
+      }
+    }
+    const serialized = Object.entries(merged).map(([name, value]) => (value === true ? ` ${name}` : ` ${name}="${value}"`));
+    return `<${tagName}${serialized.join("")}>`;
+  });
 }
 
 /**
  * After renderToString(), merge collected <Head> elements into the HTML string.
+ * Pass the collector provided to the render through HeadContext (the elements
+ * collected without a provider are used otherwise).
  *
- * Merge rules:
- * - <title>: replaces existing <title> in the HTML
- * - <meta name="X">: replaces existing <meta name="X"> in the HTML
- * - Everything else: appended before </head>
+ * Elements are keyed by tag type and identifying attribute (see getHeadTagKey). For a
+ * given key, the deepest element wins, the last collected one among elements of the same
+ * depth: the page overrides its layouts, which override the <head> written by the root
+ * layout, whatever the order they render in (e.g. a layout <Head> in a Suspense boundary).
+ * - an element with the key of one already in the <head> replaces it in place
+ * - other elements are appended before </head>
+ * - <html> and <body> elements set attributes on the document (e.g. <html lang="en" />,
+ *   <body className="dark" />); classes are combined
+ * Fragments are flattened, and components (e.g. <Head><Seo /></Head>) are rendered, each
+ * element of their markup being merged like the elements written in <Head>.
  */
-export function injectHeadIntoHtml(html: string): string {
-  const headElements = getHeadElements();
+export function injectHeadIntoHtml(html: string, headElements: HeadCollector = getHeadElements()): string {
   if (headElements.length === 0) {
     return html;
   }
 
-  // Render each collected element to HTML fragments
-  const titles: string[] = [];
-  const metaReplacements: { name: string; html: string }[] = [];
-  const appendElements: string[] = [];
+  // Render each collected element, the deepest one of a key replacing the others
+  // (sort() is stable, so elements of the same depth stay in render order)
+  const tags = new Map<string, HeadTag>();
+  const htmlAttributes: Attributes = {};
+  const bodyAttributes: Attributes = {};
+
+  const addTag = (tagName: string, rendered: string, explicitKey?: string | null): void => {
+    const attributes = parseAttributes(rendered);
 
-  for (const children of headElements) {
-    React.Children.forEach(children, (child) => {
-      if (!React.isValidElement(child)) return;
+    if (tagName === "html") {
+      Object.assign(htmlAttributes, attributes);
+    } else if (tagName === "body") {
+      const { class: className, ...others } = attributes;
+      Object.assign(bodyAttributes, others);
+      if (typeof className === "string") {
+        bodyAttributes.class = typeof bodyAttributes.class === "string" ? `${bodyAttributes.class} ${className}` : className;
+      }
+    } else {
+      const key = getHeadTagKey(tagName, attributes, rendered, explicitKey);
+      tags.delete(key);
+      tags.set(key, { key, html: rendered });
+    }
+  };
 
+  for (const { children } of [...headElements].sort((a, b) => a.depth - b.depth)) {
+    for (const child of flattenHeadChildren(children)) {
       const rendered = ReactDOMServer.renderToStaticMarkup(child);
 
-      if (child.type === "title") {
-        titles.push(rendered);
-      } else if (
-        child.type === "meta" &&
-        (child.props as Record<string, unknown>).name
-      ) {
-        metaReplacements.push({
-          name: (child.props as Record<string, unknown>).name as string,
-          html: rendered,
-        });
+      if (typeof child.type === "string") {
+        addTag(child.type, rendered, child.key);
       } else {
-        appendElements.push(rendered);
+        for (const [tagHtml, pairedTag, voidTag] of rendered.matchAll(RENDERED_HEAD_TAGS)) {
+          addTag((pairedTag || voidTag).toLowerCase(), tagHtml);
+        }
       }
-    });
+    }
   }
 
   let result = html;
 
-  // Replace <title> — last one wins
-  if (titles.length > 0) {
-    const newTitle = titles[titles.length - 1];
-    result = result.replace(/<title>[\s\S]*?<\/title>/, newTitle);
-  }
-
-  // Replace <meta name="X"> tags
-  for (const { name, html: metaHtml } of metaReplacements) {
-    const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-    const metaRegex = new RegExp(
-      `<meta\\s+name="${escapedName}"[^>]*\\/?>`,
-      "i"
+  // Replace the elements of the <head> written by the layouts, then append the others
+  const headMatch = result.match(/<head(\s[^>]*)?>([\s\S]*?)<\/head>/i);
+  if (headMatch) {
+    const replaced = new Set<string>();
+    const head = headMatch[2].replace(
+      /<(title|script|style|noscript)\b[^>]*>[\s\S]*?<\/\1>|<(meta|link|base)\b[^>]*>/gi,
+      (tagHtml, pairedTag, voidTag) => {
+        const tagName = (pairedTag || voidTag).toLowerCase();
+        const key = getHeadTagKey(tagName, parseAttributes(tagHtml), tagHtml);
+        const tag = tags.get(key);
+        if (!tag) return tagHtml;
+        // A key present several times in the layout <head> is only kept once
+        if (replaced.has(key)) return "";
+        replaced.add(key);
+        return tag.html;
+      }
     );
-    if (metaRegex.test(result)) {
-      result = result.replace(metaRegex, metaHtml);
-    } else {
-      // No existing meta with this name — append it
-      appendElements.push(metaHtml);
-    }
+    const appended = [...tags.values()].filter((tag) => !replaced.has(tag.key)).map((tag) => tag.html);
+
+    const headStart = headMatch.index! + headMatch[0].indexOf(">") + 1;
+    const headEnd = headMatch.index! + headMatch[0].length - "</head>".length;
+    result = result.slice(0, headStart) + head + appended.join("") + result.slice(headEnd);
   }
 
-  // Append remaining elements before </head>
-  if (appendElements.length > 0) {
-    result = result.replace("</head>", appendElements.join("") + "</head>");
+  if (Object.keys(htmlAttributes).length > 0) {
+    result = mergeTagAttributes(result, "html", htmlAttributes);
+  }
+  if (Object.keys(bodyAttributes).length > 0) {
+    result = mergeTagAttributes(result, "body", bodyAttributes);
   }
 
   return result;
@@ -0,0 +1,164 @@
+import fs from "fs";
+import path from "path";
+import crypto from "node:crypto";
+import { CONFIG } from "../server/config/index.js";
+
+/**
+ * What an output file was generated from: the hash of every source file it
+ * depends on (keyed by path relative to the project root) and, for HTML pages,
+ * the hash of the serialized getStaticProps result
+ */
+export interface ManifestEntry {
+  /** Route the output comes from (e.g. "blog/[slug]") */
+  route: string;
+  inputs: { [relativePath: string]: string };
+  propsHash?: string;
+  /** When the output was last generated (or found up to date), as an ISO date */
+  generatedAt?: string;
+  /** Seconds after which the production server regenerates the page (ISR) */
+  revalidate?: number;
+}
+
+export interface BuildManifest {
+  /** Changes whenever the library version, the dependencies or an output-affecting option changes */
+  fingerprint: string;
+  /** Keyed by page name (e.g. "blog/hello" -> blog/hello.html) */
+  html: { [pageName: string]: ManifestEntry };
+  /** Keyed by CSS output name (e.g. "blog/slug" -> blog/slug.css) */
+  css: { [outputName: string]: ManifestEntry };
+  /** getStaticPaths options of dynamic routes, keyed by route (e.g. "blog/[slug]") */
+  routes: { [route: string]: RouteOptions };
+}
+
+export interface RouteOptions {
+  /** "blocking": the production server renders paths missing from getStaticPaths on first request */
+  fallback: false | "blocking";
+}
+
+export const BUILD_MANIFEST_FILE = "buildManifest.json";
+
+const hash = (content: string | Buffer) => crypto.createHash("sha256").update(content).digest("hex").slice(0, 16);
+
+const getManifestPath = (projectDir: string) =>
+  path.resolve(projectDir, CONFIG.BUILD_DIR, "cache", BUILD_MANIFEST_FILE);
+
+const LOCKFILES = ["package-lock.json", "pnpm-lock.yaml", "yarn.lock", "bun.lock", "bun.lockb"];
+
+/**
+ * Hash of the installed dependency versions: the nearest lockfile (the project's,
+ * or the workspace root's in a monorepo), or the project's package.json
+ * dependencies when there is none
+ */
+const getDependenciesHash = (projectDir: string): string | null => {
+  let dir = path.resolve(projectDir);
+  while (true) {
+    for (const lockfile of LOCKFILES) {
+      const lockfilePath = path.join(dir, lockfile);
+      if (fs.existsSync(lockfilePath)) {
+        return hash(fs.readFileSync(lockfilePath));
+      }
+    }
+    const parentDir = path.dirname(dir);
+    if (parentDir === dir) break;
+    dir = parentDir;
+  }
+
+  try {
+    const { dependencies, devDependencies } = JSON.parse(fs.readFileSync(path.join(projectDir, "package.json"), "utf-8"));
+    return hash(JSON.stringify({ dependencies, devDependencies }));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Fingerprint of everything besides the sources that changes the generated files,
+ * including the dependencies pages import (e.g. upgrading React)
+ */
+const getBuildFingerprint = (projectDir: string): string => {
+  let libVersion = "unknown";
+  try {
+    const packageJson = new URL("../../package.json", import.meta.url);
+    libVersion = JSON.parse(fs.readFileSync(packageJson, "utf-8")).version;
+  } catch {
+    // Version unavailable: outputs are still keyed by the options below
+  }
+
+  return hash(JSON.stringify({
+    libVersion,
+    dependencies: getDependenciesHash(projectDir),
+    BASE_PATH: CONFIG.BASE_PATH,
+    DECODE_TEMPLATE_EXPRESSIONS: CONFIG.DECODE_TEMPLATE_EXPRESSIONS,
+    HYDRATE_LAYOUTS: CONFIG.HYDRATE_LAYOUTS,
+  }));
+};
+
+/**
+ * Load the build manifest. A missing, invalid or outdated manifest yields an
+ * empty one, so every output gets rebuilt.
+ */
+export function loadBuildManifest(projectDir: string): BuildManifest {
+  const fingerprint = getBuildFingerprint(projectDir);
+
+  try {
+    const manifest = JSON.parse(fs.readFileSync(getManifestPath(projectDir), "utf-8"));
+    if (manifest && manifest.fingerprint === fingerprint && manifest.html && manifest.css) {
+      return { ...manifest, routes: manifest.routes || {} };
+    }
+  } catch {
+    // No previous build
+  }
+
+  return { fingerprint, html: {}, css: {}, routes: {} };
+}
+
+export function saveBuildManifest(projectDir: string, manifest: BuildManifest): void {
+  const manifestPath = getManifestPath(projectDir);
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), "utf-8");
+}
+
+/**
+ * Hash a list of source files. Missing files are recorded too, so that creating
+ * one (e.g. adding a data.json) invalidates the output.
+ */
+export function hashInputs(projectDir: string, files: string[]): { [relativePath: string]: string } {
+  const inputs: { [relativePath: string]: string } = {};
+
+  for (const file of [...new Set(files)].sort()) {
+    let fileHash = "missing";
+    try {
+      fileHash = hash(fs.readFileSync(file));
+    } catch {
+      // File doesn't exist (yet)
+    }
+    inputs[path.relative(projectDir, file)] = fileHash;
+  }
+
+  return inputs;
+}
+
+/**
+ * Hash a serialized getStaticProps result
+ */
+export function hashProps(props: unknown): string {
+  return hash(JSON.stringify(props ?? null));
+}
+
+/**
+ * Checks if an output can be kept: it still exists and was generated from the
+ * same route, inputs and props
+ */
+export function isUpToDate(
+  previous: ManifestEntry | undefined,
+  next: ManifestEntry,
+  outputPath: string
+): boolean {
+  if (!previous || previous.route !== next.route || previous.propsHash !== next.propsHash) return false;
+
+  const previousKeys = Object.keys(previous.inputs);
+  if (previousKeys.length !== Object.keys(next.inputs).length) return false;
+  if (previousKeys.some((key) => previous.inputs[key] !== next.inputs[key])) return false;
+
+  return fs.existsSync(outputPath);
+}
@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+
+export interface BuildFailure {
+  /** Concrete page name (e.g. "blog/hello"), or the route when the page failed before expanding its paths */
+  pageName: string;
+  /** Route the page comes from (e.g. "blog/[slug]") */
+  route: string;
+  /** getStaticPaths params of the failed instance, if any */
+  params?: { [key: string]: unknown };
+  error: string;
+  stack?: string;
+}
+
+export interface BuildReport {
+  startedAt: string;
+  durationMs: number;
+  success: boolean;
+  built: string[];
+  /** Pages left as is because nothing they depend on changed since the last build */
+  skipped: string[];
+  /** Pages whose getStaticProps returned { notFound: true } */
+  notFound: string[];
+  /** Pages whose getStaticProps returned { redirect } */
+  redirected: string[];
+  failures: BuildFailure[];
+}
+
+export const BUILD_REPORT_FILE = "build-report.json";
+
+/**
+ * Turn a caught error into a report entry
+ */
+export function toBuildFailure(
+  pageName: string,
+  route: string,
+  error: unknown,
+  params?: { [key: string]: unknown }
+): BuildFailure {
+  const err = error instanceof Error ? error : new Error(String(error));
+  return { pageName, route, ...(params ? { params } : {}), error: err.message, stack: err.stack };
+}
+
+/**
+ * Write the report as build-report.json at the root of the build directory
+ */
+export function writeBuildReport(buildDir: string, report: BuildReport): string {
+  fs.mkdirSync(buildDir, { recursive: true });
+  const reportPath = path.join(buildDir, BUILD_REPORT_FILE);
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+  return reportPath;
+}
+
+/**
+ * Print a summary table of failed pages
+ */
+export function printFailureSummary(failures: BuildFailure[]): void {
+  const rows = failures.map((failure) => [
+    failure.pageName,
+    failure.params ? JSON.stringify(failure.params) : "-",
+    failure.error.split("\n")[0],
+  ]);
+  const headers = ["Page", "Params", "Error"];
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map((row) => row[i].length)));
+  const formatRow = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join(" | ");
+
+  console.error(`\n❌ ${failures.length} page(s) failed to build:\n`);
+  console.error(formatRow(headers));
+  console.error(widths.map((width) => "-".repeat(width)).join("-|-"));
+  rows.forEach((row) => console.error(formatRow(row)));
+}
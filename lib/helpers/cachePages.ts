@@ -3,6 +3,7 @@ import path from "path";
 import {readPages} from "./readPages.js";
 import {CONFIG} from "../server/config/index.js";
 import {findStyleFiles} from "./styleDiscovery.js";
+import {matchRoute} from "./routeMatcher.js";
 
 const generateExcludedFiles = (entries: { [key: string]: string }) => {
     const excludedFiles: string[] = [];
@@ -191,62 +192,20 @@ export const loadCacheEntries = (projectDir: string, verbose: boolean = false) =
     }
 };
 
-/**
- * Resolve a URL path to its page directory, supporting dynamic [param] segments.
- * e.g. "guide-pratique/forfaits-mobile" -> "guide-pratique/[category]"
- * @returns The resolved route name and index.tsx path, or null if not found.
- */
-const resolveDynamicRoute = (urlPath: string, pagesDir: string): { routeName: string; indexPath: string } | null => {
-    const segments = urlPath.split('/');
-    let currentDir = pagesDir;
-    const routeSegments: string[] = [];
-
-    for (const segment of segments) {
-        const exactPath = path.join(currentDir, segment);
-        if (fs.existsSync(exactPath) && fs.statSync(exactPath).isDirectory()) {
-            currentDir = exactPath;
-            routeSegments.push(segment);
-            continue;
-        }
-
-        // Look for a dynamic [param] directory
-        try {
-            const entries = fs.readdirSync(currentDir);
-            const dynamicDir = entries.find(
-                (e) => /^\[.+\]$/.test(e) && fs.statSync(path.join(currentDir, e)).isDirectory()
-            );
-            if (dynamicDir) {
-                currentDir = path.join(currentDir, dynamicDir);
-                routeSegments.push(dynamicDir);
-                continue;
-            }
-        } catch {
-            // Directory read failed
-        }
-
-        return null;
-    }
-
-    const indexPath = path.join(currentDir, "index.tsx");
-    if (fs.existsSync(indexPath)) {
-        return { routeName: routeSegments.join('/'), indexPath };
-    }
-
-    return null;
-};
-
 /**
  * Process CLI arguments to generate specific page entries.
  * Accepts bare page names (e.g. "guide-pratique"), dynamic route URLs
- * (e.g. "guide-pratique/forfaits-mobile" -> resolves to "guide-pratique/[category]"),
+ * (e.g. "guide-pratique/forfaits-mobile" -> resolves to "guide-pratique/[category]",
+ * "docs/a/b" -> resolves to "docs/[...slug]"),
  * and explicit .tsx paths for backward compatibility.
  * Multiple URLs mapping to the same dynamic route are deduplicated.
  * @param args - Command line arguments (page names, URL paths, or .tsx paths)
  * @param pagesDir - Pages directory path
  * @returns Processed entries object
  */
-const processCliArgs = (args: string[], pagesDir: string) => {
+export const processCliArgs = (args: string[], pagesDir: string) => {
     const entries: { [key: string]: string } = {};
+    const pages = readPages(pagesDir);
 
     for (const arg of args) {
         if (arg.endsWith(".tsx")) {
@@ -258,19 +217,13 @@ const processCliArgs = (args: string[], pagesDir: string) => {
                 console.warn(`Page file not found: ${fullPath}`);
             }
         } else {
-            // Try direct folder-based route first
-            const indexPath = path.resolve(pagesDir, arg, "index.tsx");
-            if (fs.existsSync(indexPath)) {
-                entries[arg] = indexPath;
+            // Resolve folder-based and dynamic routes with the shared route matcher
+            const match = matchRoute(arg, pages);
+            if (match) {
+                // Deduplicate: multiple URLs may map to the same dynamic route
+                entries[match.pageName] = match.pagePath;
             } else {
-                // Try resolving as a dynamic route URL
-                const resolved = resolveDynamicRoute(arg, pagesDir);
-                if (resolved) {
-                    // Deduplicate: multiple URLs may map to the same dynamic route
-                    entries[resolved.routeName] = resolved.indexPath;
-                } else {
-                    console.warn(`Page not found: ${arg}`);
-                }
+                console.warn(`Page not found: ${arg}`);
             }
         }
     }
@@ -278,32 +231,77 @@ const processCliArgs = (args: string[], pagesDir: string) => {
     return entries;
 };
 
+const readCacheFile = async <T>(filePath: string, fallback: T): Promise<T> => {
+    try {
+        return JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+    } catch {
+        return fallback;
+    }
+};
+
+/**
+ * Refresh the page, excluded files and styles caches of some pages, keeping the
+ * entries of the other pages (a partial revalidation must not drop them).
+ * Page files and caches are read and written asynchronously, so a server
+ * revalidating pages keeps answering requests meanwhile.
+ * @param args - Page names or URL paths, as for processCliArgs
+ * @returns The entries of the requested pages
+ */
+export const updateCacheEntries = async (projectDir: string, args: string[]) => {
+    const pagesDir = path.resolve(projectDir, "src/pages");
+    const rootDir = path.resolve(projectDir, "src");
+    const cacheDir = path.resolve(projectDir, CONFIG.BUILD_DIR, "cache");
+    const pagesCachePath = path.resolve(cacheDir, "pagesCache.json");
+    const excludedFilePath = path.resolve(cacheDir, "excludedFiles.json");
+    const stylesCachePath = path.resolve(cacheDir, "stylesCache.json");
+
+    const entries = processCliArgs(args, pagesDir);
+    const [pagesCache, excludedFiles, stylesCache] = await Promise.all([
+        readCacheFile<{ [key: string]: string }>(pagesCachePath, {}),
+        readCacheFile<string[]>(excludedFilePath, []),
+        readCacheFile<{ [key: string]: string[] }>(stylesCachePath, {}),
+    ]);
+    const excluded = new Set(excludedFiles);
+
+    for (const [pageName, pagePath] of Object.entries(entries)) {
+        pagesCache[pageName] = pagePath;
+        delete stylesCache[pageName];
+
+        // Same rules as a full scan: "no scripts" pages are excluded, the others get their styles
+        const firstLine = (await fs.promises.readFile(pagePath, "utf8")).split("\n")[0];
+        if (firstLine.includes("no scripts")) {
+            excluded.add(pageName);
+            continue;
+        }
+        excluded.delete(pageName);
+
+        const styleFiles = findStyleFiles(pagePath, rootDir);
+        if (styleFiles.length > 0) {
+            stylesCache[pageName] = styleFiles;
+        }
+    }
+
+    await fs.promises.mkdir(cacheDir, {recursive: true});
+    await Promise.all([
+        fs.promises.writeFile(pagesCachePath, JSON.stringify(pagesCache, null, 2), "utf8"),
+        fs.promises.writeFile(excludedFilePath, JSON.stringify([...excluded], null, 2), "utf8"),
+        fs.promises.writeFile(stylesCachePath, JSON.stringify(stylesCache, null, 2), "utf8"),
+    ]);
+
+    return entries;
+};
+
 /**
  * CLI wrapper that uses the modern API functions
  * @param templateDir - Template directory (defaults to current directory for backward compatibility)
  * @param specificFiles - Optional array of specific .tsx files to process
  */
-export const runCli = (templateDir: string = ".", specificFiles?: string[]) => {
+export const runCli = async (templateDir: string = ".", specificFiles?: string[]) => {
     const args = specificFiles || process.argv.slice(2);
 
     if (args.length > 0) {
-        // Handle specific files by temporarily overriding readPages behavior
-        const pagesDir = path.resolve(process.cwd(), templateDir, "src/pages");
-        const entries = processCliArgs(args, pagesDir);
-
-        // Use generateCacheEntries but with custom entries
-        const cacheDir = path.resolve(process.cwd(), templateDir, CONFIG.BUILD_DIR, "cache");
-        const cacheFilePath = path.resolve(cacheDir, "pagesCache.json");
-
-        if (!fs.existsSync(cacheDir)) {
-            fs.mkdirSync(cacheDir, {recursive: true});
-        }
-
-        fs.writeFileSync(cacheFilePath, JSON.stringify(entries, null, 2), "utf8");
-
-        const projectDir = path.resolve(process.cwd(), templateDir);
-        generateExcludedFiles(entries);
-        generateStylesCache(entries, projectDir);
+        // Only refresh the given pages in the caches
+        const entries = await updateCacheEntries(path.resolve(process.cwd(), templateDir), args);
 
         console.log("Pages cached successfully.");
         return entries;
@@ -0,0 +1,128 @@
+import crypto from "node:crypto";
+import React from "react";
+import { HeadDepth } from "../components/HeadManager.js";
+import { CONFIG } from "../server/config/index.js";
+import { getLayoutIdentifier } from "./layoutDiscovery.js";
+import { loadSourceModule } from "./moduleLoader.js";
+
+export type AppComponent = React.FC<{ Component: React.FC; props: any; pageData?: any }>;
+
+/**
+ * Props of a layout, serialized in a JSON script for hydration
+ */
+export interface LayoutData {
+  id: string;
+  props: { [key: string]: any };
+}
+
+export interface ComposedLayouts {
+  AppComponent: AppComponent;
+  /** getLayoutProps results, root layout first (empty objects for layouts without it) */
+  layoutProps: { [key: string]: any }[];
+  /** Props to serialize for the client, empty unless HYDRATE_LAYOUTS is set */
+  layoutData: LayoutData[];
+}
+
+/**
+ * getLayoutProps results of the current build, by layout path. Promises are
+ * stored so that pages rendered concurrently share a single call.
+ */
+const layoutPropsCache = new Map<string, Promise<{ [key: string]: any }>>();
+
+/**
+ * Forget the getLayoutProps results, so the next build calls them again
+ */
+export function clearLayoutPropsCache(): void {
+  layoutPropsCache.clear();
+}
+
+/**
+ * Id of the JSON script holding the props of a layout
+ * (e.g. "pages/blog/layout" -> "layout-data-3f2a9c1b0d")
+ */
+export function getLayoutDataId(layoutPath: string, rootDir: string): string {
+  const hash = crypto
+    .createHash("sha256")
+    .update(`layout-data-${getLayoutIdentifier(layoutPath, rootDir)}`)
+    .digest("hex")
+    .slice(0, 10);
+  return `layout-data-${hash}`;
+}
+
+/**
+ * Call the getLayoutProps exported by a layout, once per build. A failed call
+ * isn't kept, so the next page wrapped in the layout calls it again.
+ */
+function getLayoutProps(layoutPath: string, layoutModule: any): Promise<{ [key: string]: any }> {
+  if (typeof layoutModule.getLayoutProps !== "function") {
+    return Promise.resolve({});
+  }
+
+  let props = layoutPropsCache.get(layoutPath);
+  if (!props) {
+    props = Promise.resolve(layoutModule.getLayoutProps()).then((result) => {
+      if (!result || typeof result !== "object" || Array.isArray(result)) {
+        throw new Error(`getLayoutProps of ${layoutPath} must return an object of props.`);
+      }
+      return result;
+    }).catch((error) => {
+      layoutPropsCache.delete(layoutPath);
+      throw error;
+    });
+    layoutPropsCache.set(layoutPath, props);
+  }
+  return props;
+}
+
+/**
+ * Build the component rendering a page: the App of app.tsx wrapped in the
+ * layouts found by findLayouts(), the first (root) layout outermost.
+ * Every layout receives the page data as `pageData`, along with the props
+ * returned by its getLayoutProps.
+ * @throws If a layout module doesn't export `Layout`, or its getLayoutProps fails
+ */
+export async function composeLayouts(
+  App: React.FC<any>,
+  layoutPaths: string[],
+  pageData: any,
+  rootDir: string
+): Promise<ComposedLayouts> {
+  const layouts = await Promise.all(
+    layoutPaths.map(async (layoutPath) => {
+      const layoutModule = loadSourceModule(layoutPath);
+
+      if (!layoutModule.Layout) {
+        throw new Error(`Layout component not found in ${layoutPath}. Make sure it exports 'Layout'.`);
+      }
+      return {
+        layoutPath,
+        LayoutComponent: layoutModule.Layout as React.FC<any>,
+        props: await getLayoutProps(layoutPath, layoutModule),
+      };
+    })
+  );
+
+  // Each layout renders at its depth in the tree, the page below all of them, so that
+  // the <Head> elements of the page win over its layouts' (see injectHeadIntoHtml)
+  const AppComponent: AppComponent = ({ Component, props }) =>
+    layouts.reduceRight<React.ReactElement>(
+      (children, { LayoutComponent, props: layoutProps }, depth) =>
+        React.createElement(HeadDepth, {
+          depth,
+          children: React.createElement(LayoutComponent, { ...layoutProps, pageData, children }),
+        }),
+      React.createElement(HeadDepth, {
+        depth: layouts.length,
+        children: React.createElement(App, { Component, props, pageData }),
+      })
+    );
+
+  return {
+    AppComponent,
+    layoutProps: layouts.map(({ props }) => props),
+    // Only the client rendering the layouts again (HYDRATE_LAYOUTS) reads their props
+    layoutData: CONFIG.HYDRATE_LAYOUTS
+      ? layouts.map(({ layoutPath, props }) => ({ id: getLayoutDataId(layoutPath, rootDir), props }))
+      : [],
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Create a limiter that runs at most `concurrency` tasks at a time.
+ * Tasks beyond the limit wait in FIFO order; a finishing task hands its
+ * slot directly to the next waiting one.
+ */
+export function createLimiter(concurrency: number) {
+  const limit = Math.max(1, Math.floor(concurrency));
+  const waiting: (() => void)[] = [];
+  let active = 0;
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < limit) {
+      active++;
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
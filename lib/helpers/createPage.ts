@@ -4,7 +4,8 @@ import { Writable } from "stream";
 import React from "react";
 import { renderToPipeableStream } from "react-dom/server";
 import {CONFIG} from "../server/config/index.js";
-import {resetHeadElements, injectHeadIntoHtml} from "../components/HeadManager.js";
+import {HeadCollector, HeadContext, injectHeadIntoHtml} from "../components/HeadManager.js";
+import type {LayoutData} from "./composeLayouts.js";
 
 /**
  * Decode HTML entities within {{ }} template expressions (e.g., Go/Caddy templates).
@@ -51,8 +52,10 @@ function renderToStringAsync(element: React.ReactElement): Promise<string> {
 }
 
 interface IcreatePage {
-    data: any,
+    data?: any, // Legacy: rendered as props {data} when props isn't given
+    props?: { [key: string]: any }, // Full getStaticProps props, passed to the page and serialized for hydration
     AppComponent: React.FC<{ Component: React.FC; props: {}; pageData?: any }>,
+    layoutData?: LayoutData[], // getLayoutProps results serialized for hydration (HYDRATE_LAYOUTS)
     PageComponent: () => React.JSX.Element,
     initialDatasId: string,
     rootId: string,
@@ -65,7 +68,9 @@ interface IcreatePage {
 
 export const createPage = async ({
                                      data,
+                                     props,
                                      AppComponent,
+                                     layoutData = [],
                                      PageComponent,
                                      initialDatasId,
                                      rootId,
@@ -75,10 +80,19 @@ export const createPage = async ({
                                      returnHtml = false, // Default to false for backward compatibility
                                      pageData = {}, // Default to empty object
                                  }: IcreatePage): Promise<string | void> => {
-    const template = `{{html}}
-${data ? `<script id=initial-data-{{initialDatasId}} type="application/json">${JSON.stringify(data).replace(/</g, "\\u003c")}</script>` : ""}
+    // The client hydrates with the same props object (see vite.plugin.ts)
+    const serializedProps = props ?? (data ? {data} : undefined);
+    const serializeJson = (value: any) => JSON.stringify(value).replace(/</g, "\\u003c");
+    const scripts = `${serializedProps ? `<script id=initial-data-{{initialDatasId}} type="application/json">${serializeJson(serializedProps)}</script>` : ""}${layoutData.map(({id, props}) => `<script id=${id} type="application/json">${serializeJson(props)}</script>`).join("")}
 ${JSfileName ? `<script type="module" src="{{scriptPath}}"></script>` : ""}
 `;
+    // With HYDRATE_LAYOUTS, the client hydrates the layouts in #layouts-<hash> (see vite.plugin.ts):
+    // the document around it, where the head elements and scripts are injected, is written here
+    const template = CONFIG.HYDRATE_LAYOUTS
+        ? `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body><div id="layouts-${rootId}">{{html}}</div>
+${scripts}</body></html>`
+        : `{{html}}
+${scripts}`;
 
     // Create a wrapper component that adds the app div around the page component
     const PageWithAppDiv = (props: any) => {
@@ -88,11 +102,15 @@ ${JSfileName ? `<script type="module" src="{{scriptPath}}"></script>` : ""}
         );
     };
 
-    const component = React.createElement(AppComponent, {
-        Component: PageWithAppDiv,
-        props: {data},
-        pageData, // Pass pageData to AppComponent
-    });
+    // Head elements are collected per render, so concurrent renders don't mix them up
+    const headElements: HeadCollector = [];
+    const component = React.createElement(HeadContext.Provider, {value: {collector: headElements, depth: 0}},
+        React.createElement(AppComponent, {
+            Component: PageWithAppDiv,
+            props: props ?? {data},
+            pageData, // Pass pageData to AppComponent
+        })
+    );
 
     // Use JSfileName for script path if it's a string (for dynamic routes), otherwise use pageName
     const basePath = CONFIG.BASE_PATH;
@@ -100,17 +118,19 @@ ${JSfileName ? `<script type="module" src="{{scriptPath}}"></script>` : ""}
     // Use CSSfileName for style path if it's a string, otherwise use pageName
     const stylePath = `${basePath}/${CSSfileName || pageName}.css`;
 
-    // Reset head collector before rendering, then inject collected elements after
-    resetHeadElements();
-
+    // Inject the head elements collected during the render
     const rawHtml = await renderToStringAsync(component);
+    if (CONFIG.HYDRATE_LAYOUTS && /^(<!DOCTYPE html>)?<html[\s>]/i.test(rawHtml)) {
+        throw new Error(`The layouts of ${pageName} render the <html> element, which HYDRATE_LAYOUTS can't hydrate. Render the content of <body> instead, and the <head> elements with <Head>.`);
+    }
     const renderedHtml = CONFIG.DECODE_TEMPLATE_EXPRESSIONS ? decodeTemplateExpressions(rawHtml) : rawHtml;
 
     let htmlContent = injectHeadIntoHtml(
         template
             .replace("{{initialDatasId}}", initialDatasId)
             .replace("{{html}}", renderedHtml)
-            .replace("{{scriptPath}}", scriptPath)
+            .replace("{{scriptPath}}", scriptPath),
+        headElements
     );
 
     // Inject CSS link so the browser loads styles before rendering the body
@@ -2,42 +2,42 @@ import fs from "fs";
 import path from "path";
 
 /**
- * Discovers the closest layout.tsx file by walking up the directory tree
- * from the given page path
+ * A layout stops the chain (its parent layouts don't wrap it) when it exports
+ * `export const inheritLayouts = false`. The export is read from the source,
+ * so discovery works without loading (compiling) the layout.
  */
-export function findClosestLayout(pagePath: string, rootDir: string): string | null {
-  // Get the directory containing the page
-  const pageDir = path.dirname(pagePath);
-  
-  // Start from the page's directory and walk up
-  let currentDir = pageDir;
-  
-  while (true) {
-    // Check if layout.tsx exists in current directory
+const NO_INHERIT_REGEX = /export\s+const\s+inheritLayouts(\s*:\s*boolean)?\s*=\s*false\b/;
+
+const inheritsLayouts = (layoutPath: string): boolean =>
+  !NO_INHERIT_REGEX.test(fs.readFileSync(layoutPath, "utf-8"));
+
+/**
+ * Discovers the layout.tsx files wrapping a page, from the pages root down to
+ * the page's directory (root wraps section wraps subsection). Route groups are
+ * real directories, so a (group)/layout.tsx applies to every page inside that
+ * group only. A layout exporting `inheritLayouts = false` starts the chain.
+ */
+export function findLayouts(pagePath: string, rootDir: string): string[] {
+  const pagesDir = path.join(rootDir, "pages");
+  const layouts: string[] = [];
+
+  // Walk up from the page's directory to the pages root
+  let currentDir = path.dirname(pagePath);
+
+  while (currentDir === pagesDir || currentDir.startsWith(pagesDir + path.sep)) {
     const layoutPath = path.join(currentDir, "layout.tsx");
-    
+
     if (fs.existsSync(layoutPath)) {
-      return layoutPath;
-    }
-    
-    // Get parent directory
-    const parentDir = path.dirname(currentDir);
-    
-    // If we've reached the root directory or can't go up further, stop
-    if (parentDir === currentDir || !currentDir.startsWith(rootDir)) {
-      break;
+      layouts.unshift(layoutPath);
+      if (!inheritsLayouts(layoutPath)) {
+        break;
+      }
     }
-    
-    currentDir = parentDir;
-  }
-  
-  // Fallback to global layout if no layout.tsx found in the hierarchy
-  const globalLayoutPath = path.join(rootDir, "pages", "layout.tsx");
-  if (fs.existsSync(globalLayoutPath)) {
-    return globalLayoutPath;
+
+    currentDir = path.dirname(currentDir);
   }
-  
-  return null;
+
+  return layouts;
 }
 
 /**
@@ -46,4 +46,4 @@ export function findClosestLayout(pagePath: string, rootDir: string): string | n
 export function getLayoutIdentifier(layoutPath: string, rootDir: string): string {
   const relativePath = path.relative(rootDir, layoutPath);
   return relativePath.replace(/\.tsx$/, "");
-}
\ No newline at end of file
+}
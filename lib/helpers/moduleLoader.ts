@@ -0,0 +1,70 @@
+import Module from "node:module";
+import path from "path";
+
+// Register a no-op handler for CSS files so that Node.js doesn't try to parse
+// them as JavaScript when a third-party library (e.g. trilogy-react) requires one.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const extensions: Record<string, any> = (Module as any)._extensions;
+for (const ext of ['.css', '.scss', '.sass', '.less']) {
+  if (!extensions[ext]) {
+    extensions[ext] = () => {};
+  }
+}
+
+// Page sources are TypeScript: compile them on the fly unless the process already runs under tsx
+if (!extensions['.tsx']) {
+  Module.createRequire(import.meta.url)("tsx/cjs/api").register();
+}
+
+// Use CJS require() for loading page modules instead of ESM import().
+// ESM import() caches modules internally with no way to clear the cache,
+// which causes stale output when sources or data modules change in a
+// long-running process. CJS require.cache CAN be cleared.
+const nodeRequire = Module.createRequire(path.resolve(process.cwd(), '_placeholder.js'));
+
+/**
+ * Builds running in this process. Their modules must not be re-imported while
+ * they run, or pages of the same build would get different module instances.
+ */
+let runningBuilds = 0;
+
+/**
+ * Run a build, during which isBuildRunning() is true
+ */
+export async function withBuildRunning<T>(build: () => Promise<T>): Promise<T> {
+  runningBuilds++;
+  try {
+    return await build();
+  } finally {
+    runningBuilds--;
+  }
+}
+
+/**
+ * Whether a build is running: renders outside of it must not clear the module cache
+ */
+export function isBuildRunning(): boolean {
+  return runningBuilds > 0;
+}
+
+/**
+ * Forget every module loaded from the project sources, so the next
+ * loadSourceModule() re-imports them (pages, layouts, data modules...)
+ */
+export function clearSourceModuleCache(projectRoot: string = process.cwd()): void {
+  const srcDir = path.resolve(projectRoot, 'src');
+  if (nodeRequire.cache) {
+    for (const key of Object.keys(nodeRequire.cache)) {
+      if (key.startsWith(srcDir)) {
+        delete nodeRequire.cache[key];
+      }
+    }
+  }
+}
+
+/**
+ * Load a page, layout or app module of the project
+ */
+export function loadSourceModule(modulePath: string) {
+  return nodeRequire(modulePath);
+}
@@ -0,0 +1,49 @@
+import path from "path";
+import { readPages } from "./readPages.js";
+import { matchRoute } from "./routeMatcher.js";
+
+/**
+ * Maximum allowed path length to prevent buffer overflow attacks
+ */
+export const MAX_PATH_LENGTH = 256;
+
+/**
+ * Normalize a path by stripping leading/trailing slashes.
+ * Consumers typically send URL paths like "/guide-pratique" but
+ * we expect bare page names like "guide-pratique".
+ */
+export const normalizePath = (p: string): string => p.replace(/^\/+|\/+$/g, "");
+
+/**
+ * Strict path validation:
+ * - Must be a string
+ * - Must match safe characters only (alphanumeric, underscore, hyphen, slash)
+ * - Each segment between slashes must be non-empty and alphanumeric/underscore/hyphen
+ * - Must not exceed max length
+ */
+export const isValidPath = (p: unknown): p is string => {
+  if (typeof p !== "string") return false;
+  const normalized = normalizePath(p);
+  if (normalized.length === 0 || normalized.length > MAX_PATH_LENGTH) return false;
+  // Allow path segments separated by single slashes
+  if (!/^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/.test(normalized)) return false;
+  return true;
+};
+
+/**
+ * Validate that a path resolves to a page within the pages directory.
+ * Uses the shared route matcher, so dynamic [param], [...param] and
+ * [[...param]] routes resolve with the same precedence as the build.
+ */
+export const isPathWithinPagesDir = (pageName: string, projectRoot: string): boolean => {
+  const pagesDir = path.resolve(projectRoot, 'src/pages');
+
+  try {
+    const match = matchRoute(pageName, readPages(pagesDir));
+
+    // Ensure we stayed within pagesDir
+    return match !== null && path.resolve(match.pagePath).startsWith(pagesDir + path.sep);
+  } catch {
+    return false;
+  }
+};
@@ -1,29 +1,100 @@
 import fs from "fs";
 import path from "path";
+import { CONFIG } from "../server/config/index.js";
+import { getPageNameFromDir, isPrivateSegment } from "./routeSegments.js";
 
-export function readPages(dir: string, baseDir = dir) {
-  let result: { [key: string]: string } = {};
-  const files = fs.readdirSync(dir);
-
-  for (const file of files) {
-    const fullPath = path.join(dir, file);
-    const stat = fs.statSync(fullPath);
-
-    if (stat.isDirectory()) {
-      // Check if this directory contains an index.tsx file
-      const indexPath = path.join(fullPath, "index.tsx");
-      if (fs.existsSync(indexPath)) {
-        // Create route path from folder structure
-        const relPath = path.relative(baseDir, fullPath);
-        result[relPath] = indexPath;
+/**
+ * Extensions routed as flat-file pages when FLAT_FILE_PAGES is enabled
+ */
+const FLAT_PAGE_EXTENSIONS = [".tsx"];
+
+/**
+ * File names that are never routed as flat-file pages
+ */
+const RESERVED_FILE_NAMES = ["index", "page", "layout", "app"];
+
+/**
+ * Checks if a page file is a flat-file page (e.g. about.tsx) rather than
+ * the page of its folder (folder/index.tsx or folder/page.tsx)
+ */
+export function isFlatPageFile(pagePath: string): boolean {
+  const name = path.basename(pagePath, path.extname(pagePath));
+  return name !== "index" && name !== "page";
+}
+
+/**
+ * Gets the data.json of a page: next to a folder page, or <name>.data.json
+ * next to a flat-file page (about.tsx -> about.data.json)
+ */
+export function getPageDataPath(pagePath: string): string {
+  const pageDir = path.dirname(pagePath);
+  if (isFlatPageFile(pagePath)) {
+    return path.join(pageDir, `${path.basename(pagePath, path.extname(pagePath))}.data.json`);
+  }
+  return path.join(pageDir, "data.json");
+}
+
+/**
+ * Scan the pages directory for folder-based routes (folders containing an index.tsx).
+ * - (group) folders are traversed but don't appear in the page name
+ * - _private folders are skipped entirely
+ * - with FLAT_FILE_PAGES, folder/page.tsx routes like folder/index.tsx and
+ *   about.tsx routes to "about", unless its folder is itself a page: files next to
+ *   a folder/index.tsx (or page.tsx) are that page's components, not pages
+ * Throws when two pages resolve to the same page name (e.g. "(a)/about" and
+ * "(b)/about", or "about.tsx" and "about/index.tsx").
+ */
+export function readPages(dir: string, baseDir = dir, flatFiles: boolean = CONFIG.FLAT_FILE_PAGES) {
+  const result: { [key: string]: string } = {};
+
+  const register = (pageName: string, pagePath: string) => {
+    if (result[pageName]) {
+      throw new Error(
+        `Conflicting pages for route "${pageName}": ${result[pageName]} and ${pagePath}`
+      );
+    }
+    result[pageName] = pagePath;
+  };
+
+  const collect = (currentDir: string) => {
+    const files = fs.readdirSync(currentDir);
+    // Components co-located with a folder page (home/Card.tsx next to home/index.tsx)
+    const isPageDir = currentDir !== baseDir && (files.includes("index.tsx") || files.includes("page.tsx"));
+
+    for (const file of files) {
+      const fullPath = path.join(currentDir, file);
+      const stat = fs.statSync(fullPath);
+
+      if (stat.isDirectory()) {
+        // Private folders (e.g. _components) are never routed
+        if (isPrivateSegment(file)) continue;
+
+        // Create route path from folder structure, without route groups
+        const pageName = getPageNameFromDir(path.relative(baseDir, fullPath));
+
+        // Check if this directory contains an index.tsx (or page.tsx) file
+        const pageFiles = flatFiles ? ["index.tsx", "page.tsx"] : ["index.tsx"];
+        for (const pageFile of pageFiles) {
+          const pagePath = path.join(fullPath, pageFile);
+          if (fs.existsSync(pagePath)) {
+            register(pageName, pagePath);
+          }
+        }
+
+        // Continue recursively searching for more pages
+        collect(fullPath);
+      } else if (flatFiles && !isPageDir && FLAT_PAGE_EXTENSIONS.includes(path.extname(file))) {
+        // Flat-file page: about.tsx -> "about"
+        const name = path.basename(file, path.extname(file));
+        if (RESERVED_FILE_NAMES.includes(name) || isPrivateSegment(name)) continue;
+
+        register(getPageNameFromDir(path.relative(baseDir, path.join(currentDir, name))), fullPath);
       }
-      
-      // Continue recursively searching for more pages
-      const nested = readPages(fullPath, baseDir);
-      result = { ...result, ...nested };
+      // Note: without FLAT_FILE_PAGES, direct .tsx files are not routed - only folder-based routes with index.tsx
     }
-    // Note: Direct .tsx files are no longer supported - only folder-based routes with index.tsx
-  }
+  };
+
+  collect(dir);
 
   return result;
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import fs from "fs";
+import path from "path";
+import { CONFIG } from "../server/config/index.js";
+import { loadBuildManifest, saveBuildManifest } from "./buildManifest.js";
+import { loadRedirects, saveRedirects } from "./staticProps.js";
+import { loadTagsIndex, saveTagsIndex, setPageTags } from "./tagsIndex.js";
+
+/**
+ * Delete generated pages (e.g. for unpublished content) along with their build
+ * manifest, redirect and tags index entries. Only pages recorded in the build
+ * manifest are removed.
+ * @param dryRun - Only tell which pages would be removed
+ * @returns The removed page names, and those that had not been generated
+ */
+export function removePages(
+  projectDir: string,
+  pageNames: string[],
+  dryRun: boolean = false
+): { removed: string[]; missing: string[] } {
+  const manifest = loadBuildManifest(projectDir);
+  const redirects = loadRedirects(projectDir);
+  const tagsIndex = loadTagsIndex(projectDir);
+  const removed: string[] = [];
+  const missing: string[] = [];
+
+  for (const pageName of pageNames) {
+    if (!manifest.html[pageName]) {
+      missing.push(pageName);
+      continue;
+    }
+    if (dryRun) {
+      removed.push(pageName);
+      continue;
+    }
+
+    delete manifest.html[pageName];
+    delete redirects[pageName];
+    setPageTags(tagsIndex, pageName);
+    fs.rmSync(path.join(projectDir, CONFIG.BUILD_DIR, `${pageName}.html`), { force: true });
+    console.log(`🗑  ${pageName}.html (removed)`);
+    removed.push(pageName);
+  }
+
+  if (removed.length > 0 && !dryRun) {
+    saveBuildManifest(projectDir, manifest);
+    saveRedirects(projectDir, redirects);
+    saveTagsIndex(projectDir, tagsIndex);
+  }
+
+  return { removed, missing };
+}
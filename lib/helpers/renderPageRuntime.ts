@@ -1,47 +1,20 @@
 import fs from "fs/promises";
 import crypto from "node:crypto";
 import path from "path";
-import Module from "node:module";
 import React from "react";
 import { createPage } from "./createPage.js";
-import { readPages } from "./readPages.js";
+import { getPageDataPath, readPages } from "./readPages.js";
 import { CONFIG } from "../server/config/index.js";
-import { findClosestLayout } from "./layoutDiscovery.js";
+import { findLayouts } from "./layoutDiscovery.js";
+import { clearLayoutPropsCache, composeLayouts } from "./composeLayouts.js";
 import { hasStyles } from "./styleDiscovery.js";
-
-// Register a no-op handler for CSS files so that Node.js doesn't try to parse
-// them as JavaScript when a third-party library (e.g. trilogy-react) requires one.
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const extensions: Record<string, any> = (Module as any)._extensions;
-for (const ext of ['.css', '.scss', '.sass', '.less']) {
-    if (!extensions[ext]) {
-        extensions[ext] = () => {};
-    }
-}
+import { getRouteFileKey, RouteParams } from "./routeSegments.js";
+import { matchRoute } from "./routeMatcher.js";
+import { normalizeStaticPropsResult, StaticRedirect } from "./staticProps.js";
+import { clearSourceModuleCache, isBuildRunning, loadSourceModule } from "./moduleLoader.js";
 
 const rootDir = path.resolve(process.cwd(), "./src");
 
-// Use CJS require() for loading page modules instead of ESM import().
-// ESM import() caches modules internally with no way to clear the cache,
-// which causes stale SSR output on file changes. CJS require.cache CAN be
-// cleared, so we clear all source files before each render to ensure fresh content.
-const nodeRequire = Module.createRequire(path.resolve(process.cwd(), '_placeholder.js'));
-
-function clearSourceModuleCache() {
-    const srcDir = path.resolve(process.cwd(), 'src');
-    if (nodeRequire.cache) {
-        for (const key of Object.keys(nodeRequire.cache)) {
-            if (key.startsWith(srcDir)) {
-                delete nodeRequire.cache[key];
-            }
-        }
-    }
-}
-
-function loadModule(modulePath: string) {
-    return nodeRequire(modulePath);
-}
-
 async function loadJson(filePath: string) {
   try {
     const data = await fs.readFile(filePath, "utf-8");
@@ -52,11 +25,18 @@ async function loadJson(filePath: string) {
   }
 }
 
+/**
+ * Result of a runtime render: the page HTML, the redirect returned by
+ * getStaticProps, or null when there is no such page (or getStaticProps
+ * returned { notFound: true })
+ */
+export type RuntimeRenderResult = string | { redirect: StaticRedirect } | null;
+
 /**
  * Runtime page rendering function that uses the same logic as build-html.ts
  * but returns HTML string instead of writing to file
  */
-export async function renderPageRuntime(requestPath: string, params?: { [key: string]: string }): Promise<string | null> {
+export async function renderPageRuntime(requestPath: string, params?: RouteParams): Promise<RuntimeRenderResult> {
   try {
     // Load excluded files for "no scripts" functionality
     const excludedJSFiles = await loadJson(
@@ -69,76 +49,26 @@ export async function renderPageRuntime(requestPath: string, params?: { [key: st
 
     // Find the matching page
     let matchedPage: { path: string; pageName: string } | null = null;
-    let matchedParams: { [key: string]: string } = {};
-
-    // Handle root path
-    if (requestPath === "/" || requestPath === "") {
-      if (pages["index"]) {
-        matchedPage = { path: pages["index"], pageName: "index" };
-      }
+    let matchedParams: RouteParams = {};
+
+    // Remove leading slash; try the path as-is, then with different prefixes (for flexibility)
+    const cleanPath = requestPath.replace(/^\//, "");
+    const possiblePaths = cleanPath === ""
+      ? [cleanPath]
+      : [cleanPath, `partials/${cleanPath}`, cleanPath.replace(/^partials\//, "")];
+
+    // Exact page names win over dynamic routes for every prefix
+    const exactPath = possiblePaths.find((testPath) => pages[testPath]);
+    if (exactPath) {
+      matchedPage = { path: pages[exactPath], pageName: exactPath };
     } else {
-      // Remove leading slash and try exact match first
-      const cleanPath = requestPath.replace(/^\//, "");
-      
-      // Try exact match first
-      if (pages[cleanPath]) {
-        matchedPage = { path: pages[cleanPath], pageName: cleanPath };
-      } else {
-        // Try to match with different prefixes (for flexibility)
-        const possiblePaths = [
-          cleanPath,
-          `partials/${cleanPath}`,
-          cleanPath.replace(/^partials\//, "")
-        ];
-        
-        for (const testPath of possiblePaths) {
-          if (pages[testPath]) {
-            matchedPage = { path: pages[testPath], pageName: testPath };
-            break;
-          }
-        }
-        
-        // If still no match, try dynamic routes
-        if (!matchedPage) {
-          for (const [pageName, pagePath] of Object.entries(pages)) {
-            if (pageName.includes("[") && pageName.includes("]")) {
-              // Extract ALL dynamic parameter names (e.g., "guide-pratique/[category]/[article]" -> ["category", "article"])
-              const paramMatches = [...pageName.matchAll(/\[([^\]]+)\]/g)];
-              const paramNames = paramMatches.map(m => m[1]);
-
-              if (paramNames.length > 0) {
-                // Try matching against multiple possible paths
-                for (const testPath of possiblePaths) {
-                  // Create a regex pattern from the page name (each [param] becomes a capture group)
-                  const regexPattern = pageName.replace(/\[([^\]]+)\]/g, '([^/]+)');
-                  const regex = new RegExp(`^${regexPattern}$`);
-
-                  const match = testPath.match(regex);
-                  if (match) {
-                    // Extract all parameter values from the matched groups
-                    let allValid = true;
-                    const extractedParams: { [key: string]: string } = {};
-                    for (let i = 0; i < paramNames.length; i++) {
-                      if (match[i + 1]) {
-                        extractedParams[paramNames[i]] = match[i + 1];
-                      } else {
-                        allValid = false;
-                        break;
-                      }
-                    }
-
-                    if (allValid) {
-                      matchedPage = { path: pagePath, pageName };
-                      matchedParams = extractedParams;
-                      break;
-                    }
-                  }
-                }
-
-                if (matchedPage) break;
-              }
-            }
-          }
+      // Dynamic routes, resolved with the same precedence as the build
+      for (const testPath of possiblePaths) {
+        const match = matchRoute(testPath, pages);
+        if (match) {
+          matchedPage = { path: match.pagePath, pageName: match.pageName };
+          matchedParams = match.params;
+          break;
         }
       }
     }
@@ -160,20 +90,24 @@ export async function renderPageRuntime(requestPath: string, params?: { [key: st
 async function processPageRuntime(
   page: { path: string; pageName: string },
   excludedJSFiles: string[],
-  params: { [key: string]: string } = {}
-): Promise<string> {
-  let data;
+  params: RouteParams = {}
+): Promise<RuntimeRenderResult> {
+  let props;
   const absolutePath = page.path;
 
-  // Clear CJS module cache for all source files to ensure fresh content.
-  clearSourceModuleCache();
+  // Clear CJS module cache for all source files to ensure fresh content,
+  // and call getLayoutProps again for the same reason. Not while a revalidation
+  // builds pages: it just loaded fresh modules, and needs them until it is done.
+  if (!isBuildRunning()) {
+    clearSourceModuleCache();
+    clearLayoutPropsCache();
+  }
 
   try {
-    const pageModule = loadModule(absolutePath);
+    const pageModule = loadSourceModule(absolutePath);
 
-    // Load page data.json if it exists
-    const pageDir = path.dirname(absolutePath);
-    const dataJsonPath = path.join(pageDir, 'data.json');
+    // Load page data.json (or <name>.data.json for flat-file pages) if it exists
+    const dataJsonPath = getPageDataPath(absolutePath);
     let pageData = {};
 
     try {
@@ -183,43 +117,18 @@ async function processPageRuntime(
       // data.json doesn't exist, use empty object
     }
 
-    // Discover the closest layout for this page (optional)
-    const layoutPath = findClosestLayout(absolutePath, rootDir);
-    const appModule = loadModule(`${rootDir}/pages/app.tsx`);
+    // Layouts wrapping this page, from the root layout down (optional)
+    const layoutPaths = findLayouts(absolutePath, rootDir);
+    const appModule = loadSourceModule(`${rootDir}/pages/app.tsx`);
     const fileName = path.basename(page.path, path.extname(page.path));
 
-    let AppComponent: React.FC<{ Component: React.FC; props: any }>;
-
-    if (layoutPath) {
-      const layoutModule = loadModule(layoutPath);
-      const LayoutComponent = layoutModule.Layout;
-
-      if (!LayoutComponent) {
-        throw new Error(`Layout component not found in ${layoutPath}. Make sure it exports 'Layout'.`);
-      }
-
-      AppComponent = ({ Component, props }: { Component: React.FC; props: any }) => {
-        const LayoutWrapper = ({ children }: { children: React.ReactNode }) => {
-          return React.createElement(LayoutComponent, { pageData, children });
-        };
-        return React.createElement(LayoutWrapper, {
-          children: React.createElement(appModule.App, { Component, props, pageData })
-        });
-      };
-    } else {
-      // No layout: render with App component only
-      AppComponent = ({ Component, props }: { Component: React.FC; props: any }) => {
-        return React.createElement(appModule.App, { Component, props, pageData });
-      };
-    }
-
     const PageComponent = pageModule.default;
     const getStaticProps = pageModule?.getStaticProps;
     const getStaticPaths = pageModule?.getStaticPaths;
     const injectJS = !excludedJSFiles.includes(page.pageName);
 
   // Replace [param] with param name so the hash matches the JS file path
-  const hashKey = page.pageName.replace(/\[([^\]]+)\]/g, '$1');
+  const hashKey = getRouteFileKey(page.pageName);
   const rootId = crypto
     .createHash("sha256")
     .update(`app-${hashKey}`)
@@ -241,24 +150,27 @@ async function processPageRuntime(
   // Handle getStaticProps with or without dynamic params
   const isDynamicRoute = Object.keys(params).length > 0;
   if (getStaticProps) {
-    if (isDynamicRoute) {
-      // Dynamic route with params
-      const { props } = await getStaticProps({ params });
-      data = props.data;
-    } else {
-      // Static route
-      const { props } = await getStaticProps();
-      data = props.data;
-    }
+    const result = normalizeStaticPropsResult(
+      isDynamicRoute
+        ? await getStaticProps({ params }) // Dynamic route with params
+        : await getStaticProps(), // Static route
+      page.pageName
+    );
+
+    if (result.type === "notFound") return null;
+    if (result.type === "redirect") return { redirect: result.redirect };
+    props = result.props;
   }
 
+  const { AppComponent, layoutData } = await composeLayouts(appModule.App, layoutPaths, pageData, rootDir);
+
   // Determine JS file path: replace [param] with param name (e.g., guide-pratique/[category] -> guide-pratique/category)
-  const jsFilePath = page.pageName.replace(/\[([^\]]+)\]/g, '$1');
+  const jsFilePath = getRouteFileKey(page.pageName);
 
   // Check if this page has styles (from page or layouts)
   const pageHasStyles = hasStyles(absolutePath, rootDir);
   const cssFilePath = pageHasStyles
-    ? page.pageName.replace(/\[([^\]]+)\]/g, '$1')
+    ? getRouteFileKey(page.pageName)
     : false;
 
   // Generate HTML using createPage helper with returnHtml flag
@@ -270,8 +182,9 @@ async function processPageRuntime(
     const { createPage: templateCreatePage } = await import(templateCreatePagePath);
 
     htmlContent = templateCreatePage({
-      data,
+      props,
       AppComponent,
+      layoutData,
       PageComponent,
       initialDatasId,
       rootId,
@@ -283,8 +196,9 @@ async function processPageRuntime(
   } catch (error) {
     // Fallback to server's createPage
     htmlContent = await createPage({
-      data,
+      props,
       AppComponent,
+      layoutData,
       PageComponent,
       initialDatasId,
       rootId,
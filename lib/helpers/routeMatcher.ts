@@ -0,0 +1,116 @@
+import { matchRouteSegments, parseRoute, RouteParams, RouteSegment } from "./routeSegments.js";
+
+export interface RouteMatch {
+  pageName: string;
+  pagePath: string;
+  params: RouteParams;
+}
+
+/**
+ * Segment precedence, most specific first: static > [param] > [...param] > [[...param]].
+ * The end of a route ranks above everything so that "docs" wins over "docs/[[...slug]]".
+ */
+const SEGMENT_RANK: { [type in RouteSegment["type"] | "end"]: number } = {
+  end: 0,
+  static: 1,
+  dynamic: 2,
+  catchAll: 3,
+  optionalCatchAll: 4,
+};
+
+const rankAt = (segments: RouteSegment[], index: number): number =>
+  index < segments.length ? SEGMENT_RANK[segments[index].type] : SEGMENT_RANK.end;
+
+/**
+ * Compare two page names by precedence, segment by segment from the root.
+ * Routes are ordered by the first segment whose kind differs; remaining ties
+ * are broken alphabetically so the order never depends on readdirSync.
+ */
+export function compareRoutes(a: string, b: string): number {
+  const segmentsA = parseRoute(a);
+  const segmentsB = parseRoute(b);
+  const length = Math.max(segmentsA.length, segmentsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = rankAt(segmentsA, i) - rankAt(segmentsB, i);
+    if (diff !== 0) return diff;
+  }
+
+  return a.localeCompare(b);
+}
+
+/**
+ * Sort page names from most to least specific
+ */
+export function sortRoutes(pageNames: string[]): string[] {
+  return [...pageNames].sort(compareRoutes);
+}
+
+/**
+ * Resolve a URL path (e.g. "guide/forfaits-mobile") against the pages table
+ * returned by readPages. Candidates are tried in precedence order, so when a
+ * more specific route fails on a deeper segment matching backtracks to the
+ * next candidate (e.g. "guide/[category]/compare" then "guide/[...rest]").
+ * @returns The matched page and extracted params, or null if nothing matches
+ */
+export function matchRoute(urlPath: string, pages: { [pageName: string]: string }): RouteMatch | null {
+  const urlSegments = urlPath.split("/").filter(Boolean);
+
+  // The site root maps to the "index" page when there is one
+  if (urlSegments.length === 0 && pages["index"]) {
+    return { pageName: "index", pagePath: pages["index"], params: {} };
+  }
+
+  for (const pageName of sortRoutes(Object.keys(pages))) {
+    const params = matchRouteSegments(parseRoute(pageName), urlSegments);
+    if (params) {
+      return { pageName, pagePath: pages[pageName], params };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Shape of a route with parameter names erased: two routes with the same
+ * shape match exactly the same URLs and can't be ranked against each other.
+ */
+const getRouteShape = (pageName: string): string =>
+  parseRoute(pageName)
+    .map((segment) => {
+      switch (segment.type) {
+        case "static": return segment.value;
+        case "dynamic": return "[]";
+        case "catchAll": return "[...]";
+        case "optionalCatchAll": return "[[...]]";
+      }
+    })
+    .join("/");
+
+/**
+ * Find groups of routes that can't be told apart (e.g. "guide/[category]" and "guide/[slug]")
+ */
+export function findAmbiguousRoutes(pageNames: string[]): string[][] {
+  const byShape = new Map<string, string[]>();
+
+  for (const pageName of sortRoutes(pageNames)) {
+    const shape = getRouteShape(pageName);
+    byShape.set(shape, [...(byShape.get(shape) || []), pageName]);
+  }
+
+  return [...byShape.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * Throws if the pages table contains ambiguous routes, listing every conflict
+ */
+export function assertUnambiguousRoutes(pages: { [pageName: string]: string }): void {
+  const ambiguous = findAmbiguousRoutes(Object.keys(pages));
+  if (ambiguous.length === 0) return;
+
+  const details = ambiguous
+    .map((group) => group.map((pageName) => `  - ${pageName} (${pages[pageName]})`).join("\n"))
+    .join("\n\n");
+
+  throw new Error(`Ambiguous routes: these pages match the same URLs, rename or merge them:\n${details}`);
+}
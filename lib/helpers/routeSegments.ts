@@ -0,0 +1,175 @@
+/**
+ * Route segment helpers shared by page discovery, the build and the dev runtime.
+ *
+ * Supported directory names in the pages tree:
+ * - `folder`         matches the literal URL segment
+ * - `[param]`        matches exactly one URL segment
+ * - `[...param]`     matches one or more URL segments (catch-all)
+ * - `[[...param]]`   matches zero or more URL segments (optional catch-all)
+ * - `(group)`        organizes pages without appearing in the URL
+ * - `_private`       is never routed, nor is anything below it
+ */
+
+export type RouteParams = { [key: string]: string | string[] };
+
+export type RouteSegment =
+  | { type: "static"; value: string }
+  | { type: "dynamic"; name: string }
+  | { type: "catchAll"; name: string }
+  | { type: "optionalCatchAll"; name: string };
+
+/**
+ * Parse a single directory name into a route segment
+ */
+export function parseRouteSegment(segment: string): RouteSegment {
+  let match = segment.match(/^\[\[\.\.\.([^\]]+)\]\]$/);
+  if (match) return { type: "optionalCatchAll", name: match[1] };
+
+  match = segment.match(/^\[\.\.\.([^\]]+)\]$/);
+  if (match) return { type: "catchAll", name: match[1] };
+
+  match = segment.match(/^\[([^\]]+)\]$/);
+  if (match) return { type: "dynamic", name: match[1] };
+
+  return { type: "static", value: segment };
+}
+
+/**
+ * Checks if a directory name is a route group, e.g. "(marketing)"
+ */
+export function isRouteGroupSegment(segment: string): boolean {
+  return /^\(.+\)$/.test(segment);
+}
+
+/**
+ * Checks if a directory name is a private folder, e.g. "_components"
+ */
+export function isPrivateSegment(segment: string): boolean {
+  return segment.startsWith("_");
+}
+
+/**
+ * Gets the page name of a page directory relative to the pages root,
+ * dropping route groups: "(marketing)/about" -> "about", "(home)" -> "index"
+ */
+export function getPageNameFromDir(relativeDir: string): string {
+  const segments = relativeDir.split(/[\\/]/).filter((segment) => segment && !isRouteGroupSegment(segment));
+  return segments.length > 0 ? segments.join("/") : "index";
+}
+
+/**
+ * Gets the page name of a built HTML file from a request path:
+ * "/blog/hello/" -> "blog/hello", "/about.html" -> "about", "/" -> "index"
+ */
+export function getPageNameFromUrl(urlPath: string): string {
+  return urlPath.replace(/^\/+|\/+$/g, "").replace(/\.html$/, "") || "index";
+}
+
+/**
+ * Parse a page name (e.g. "docs/[...slug]") into route segments
+ */
+export function parseRoute(pageName: string): RouteSegment[] {
+  return pageName.split("/").filter(Boolean).map(parseRouteSegment);
+}
+
+/**
+ * Checks if a page name contains at least one dynamic segment
+ */
+export function isDynamicRoute(pageName: string): boolean {
+  return parseRoute(pageName).some((segment) => segment.type !== "static");
+}
+
+/**
+ * Gets the parameter names declared by a page name, in order
+ * e.g. "guide/[category]/[...slug]" -> ["category", "slug"]
+ */
+export function getParamNames(pageName: string): string[] {
+  return parseRoute(pageName)
+    .filter((segment) => segment.type !== "static")
+    .map((segment) => (segment as { name: string }).name);
+}
+
+/**
+ * Gets the file key used for JS/CSS output names and hydration hashes:
+ * dynamic segments are replaced by their parameter name.
+ * e.g. "docs/[[...slug]]" -> "docs/slug", "partials/dynamic/[id]" -> "partials/dynamic/id"
+ */
+export function getRouteFileKey(pageName: string): string {
+  return pageName.replace(/\[\[?(?:\.\.\.)?([^\]]+)\]\]?/g, "$1");
+}
+
+/**
+ * Builds the concrete output path of a dynamic page from getStaticPaths params.
+ * Catch-all values may be arrays and are joined into nested paths; an empty
+ * optional catch-all is dropped from the path.
+ * @returns The concrete page name, or null if a required param is missing
+ */
+export function buildPagePath(pageName: string, params: { [key: string]: unknown }): string | null {
+  const parts: string[] = [];
+
+  for (const segment of parseRoute(pageName)) {
+    if (segment.type === "static") {
+      parts.push(segment.value);
+      continue;
+    }
+
+    const value = params[segment.name];
+
+    if (segment.type === "dynamic") {
+      if (value === undefined || value === null || value === "" || Array.isArray(value)) return null;
+      parts.push(String(value));
+      continue;
+    }
+
+    const values = (Array.isArray(value) ? value : value === undefined || value === null || value === "" ? [] : [value])
+      .map(String);
+
+    if (values.length === 0 && segment.type === "catchAll") return null;
+    if (values.some((v) => v.length === 0)) return null;
+    parts.push(...values);
+  }
+
+  return parts.length > 0 ? parts.join("/") : "index";
+}
+
+/**
+ * Matches URL segments against route segments, backtracking over catch-all lengths.
+ * @returns The extracted params, or null if the URL does not match
+ */
+export function matchRouteSegments(
+  routeSegments: RouteSegment[],
+  urlSegments: string[],
+  params: RouteParams = {}
+): RouteParams | null {
+  if (routeSegments.length === 0) {
+    return urlSegments.length === 0 ? params : null;
+  }
+
+  const [segment, ...rest] = routeSegments;
+
+  switch (segment.type) {
+    case "static":
+      return urlSegments[0] === segment.value
+        ? matchRouteSegments(rest, urlSegments.slice(1), params)
+        : null;
+
+    case "dynamic":
+      return urlSegments.length > 0
+        ? matchRouteSegments(rest, urlSegments.slice(1), { ...params, [segment.name]: urlSegments[0] })
+        : null;
+
+    case "catchAll":
+    case "optionalCatchAll": {
+      const minLength = segment.type === "catchAll" ? 1 : 0;
+      // Greedy: try the longest capture first so trailing static segments still get a chance
+      for (let length = urlSegments.length; length >= minLength; length--) {
+        const matched = matchRouteSegments(rest, urlSegments.slice(length), {
+          ...params,
+          [segment.name]: urlSegments.slice(0, length),
+        });
+        if (matched) return matched;
+      }
+      return null;
+    }
+  }
+}
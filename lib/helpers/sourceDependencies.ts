@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Extensions tried, in order, when resolving an import without one
+ */
+const SCRIPT_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js", ".mjs", ".json"];
+
+const SCRIPT_IMPORT_PATTERN =
+  /(?:import|export)\s+(?:[^'"`;]*?\s+from\s+)?["']([^"']+)["']|(?:import|require)\s*\(\s*["']([^"']+)["']\s*\)/g;
+const STYLE_IMPORT_PATTERN = /@(?:use|import|forward)\s+["']([^"']+)["']/g;
+
+const isStyleFile = (filePath: string) => /\.(s?css|sass)$/.test(filePath);
+
+const isFile = (filePath: string) => {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+};
+
+const firstExisting = (candidates: string[]): string | null => candidates.find(isFile) || null;
+
+/**
+ * Resolve a script import to a project file: relative specifiers and the "@/" alias
+ * of src. Package imports (react, @scope/pkg...) return null.
+ */
+function resolveScriptImport(specifier: string, fromFile: string, srcDir: string): string | null {
+  let base: string;
+  if (specifier.startsWith(".")) {
+    base = path.resolve(path.dirname(fromFile), specifier);
+  } else if (specifier.startsWith("@/")) {
+    base = path.join(srcDir, specifier.slice(2));
+  } else {
+    return null;
+  }
+
+  // TypeScript ESM imports reference the emitted .js file: "./utils.js" -> utils.ts
+  const stripped = base.replace(/\.(m?js|jsx)$/, "");
+
+  return firstExisting([
+    base,
+    ...SCRIPT_EXTENSIONS.map((ext) => stripped + ext),
+    ...SCRIPT_EXTENSIONS.map((ext) => path.join(base, `index${ext}`)),
+  ]);
+}
+
+/**
+ * Resolve a Sass @use/@import/@forward to a file, relative to the importer then to src
+ * (the load path used by build-css and Vite). Built-in modules (sass:math) return null.
+ */
+function resolveStyleImport(specifier: string, fromFile: string, srcDir: string): string | null {
+  if (specifier.startsWith("sass:") || /^(https?:)?\/\//.test(specifier)) return null;
+
+  for (const baseDir of [path.dirname(fromFile), srcDir]) {
+    const base = path.resolve(baseDir, specifier);
+    const dir = path.dirname(base);
+    const name = path.basename(base);
+    const resolved = firstExisting([
+      base,
+      ...[".scss", ".sass", ".css"].flatMap((ext) => [path.join(dir, name + ext), path.join(dir, `_${name}${ext}`)]),
+      path.join(base, "_index.scss"),
+      path.join(base, "index.scss"),
+    ]);
+    if (resolved) return resolved;
+  }
+
+  return null;
+}
+
+/**
+ * Create a resolver returning a source file and every project file it imports,
+ * transitively (scripts through import/export/require, styles through @use/@import).
+ * Results are memoized, so share one resolver across a build.
+ */
+export function createDependencyResolver(projectRoot: string) {
+  const srcDir = path.resolve(projectRoot, "src");
+  const directImports = new Map<string, string[]>();
+
+  const getDirectImports = (filePath: string): string[] => {
+    const cached = directImports.get(filePath);
+    if (cached) return cached;
+
+    let imports: string[] = [];
+    if (/\.(tsx?|jsx?|mjs)$/.test(filePath) || isStyleFile(filePath)) {
+      const content = fs.readFileSync(filePath, "utf-8");
+      const pattern = isStyleFile(filePath) ? STYLE_IMPORT_PATTERN : SCRIPT_IMPORT_PATTERN;
+      const resolve = isStyleFile(filePath) ? resolveStyleImport : resolveScriptImport;
+
+      imports = [...content.matchAll(pattern)]
+        .map((match) => resolve(match[1] || match[2], filePath, srcDir))
+        .filter((resolved): resolved is string => !!resolved && !resolved.includes(`${path.sep}node_modules${path.sep}`));
+    }
+
+    directImports.set(filePath, imports);
+    return imports;
+  };
+
+  return (entry: string): string[] => {
+    const visited = new Set<string>();
+    const stack = [path.resolve(entry)];
+
+    while (stack.length > 0) {
+      const filePath = stack.pop()!;
+      if (visited.has(filePath) || !isFile(filePath)) continue;
+      visited.add(filePath);
+      stack.push(...getDirectImports(filePath));
+    }
+
+    return [...visited];
+  };
+}
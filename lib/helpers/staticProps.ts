@@ -0,0 +1,125 @@
+import fs from "fs";
+import path from "path";
+import { CONFIG } from "../server/config/index.js";
+
+export interface StaticRedirect {
+  destination: string;
+  /** 301 when true, 302 otherwise */
+  permanent: boolean;
+}
+
+/**
+ * What a page's getStaticProps asked for: render with props, skip the page
+ * ({ notFound: true }) or redirect elsewhere ({ redirect: { destination, permanent } }).
+ * `tags` name the content the page was rendered from, for revalidation by tag.
+ */
+export type StaticPropsResult =
+  | { type: "props"; props: any; revalidate?: number; tags?: string[] }
+  | { type: "notFound" }
+  | { type: "redirect"; redirect: StaticRedirect; revalidate?: number; tags?: string[] };
+
+/**
+ * Validate a revalidate period (in seconds), exported by a page or returned by getStaticProps
+ * @returns The period, or undefined when the page is never regenerated
+ * @throws If the value is neither a positive number nor false/undefined
+ */
+export function normalizeRevalidate(value: unknown, pageName: string): number | undefined {
+  if (value === undefined || value === false) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`revalidate of ${pageName} must be a positive number of seconds or false, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Validate the tags returned by getStaticProps
+ * @returns The unique tags, or undefined when there are none
+ * @throws If the value is not an array of non-empty strings
+ */
+export function normalizeTags(value: unknown, pageName: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== "string" || tag.length === 0)) {
+    throw new Error(`tags of ${pageName} must be an array of non-empty strings, got ${JSON.stringify(value)}`);
+  }
+  return value.length > 0 ? [...new Set<string>(value)].sort() : undefined;
+}
+
+/**
+ * Validate a getStaticProps return value
+ * @throws If the value is neither { props }, { notFound: true } nor a valid { redirect }
+ */
+export function normalizeStaticPropsResult(result: any, pageName: string): StaticPropsResult {
+  if (result && result.notFound === true) {
+    return { type: "notFound" };
+  }
+
+  if (result && result.redirect !== undefined) {
+    const { destination, permanent } = result.redirect || {};
+    if (typeof destination !== "string" || destination.length === 0) {
+      throw new Error(`getStaticProps of ${pageName} returned a redirect without a destination`);
+    }
+    return {
+      type: "redirect",
+      redirect: { destination, permanent: permanent === true },
+      revalidate: normalizeRevalidate(result.revalidate, pageName),
+      tags: normalizeTags(result.tags, pageName),
+    };
+  }
+
+  if (!result || typeof result.props !== "object" || result.props === null) {
+    throw new Error(
+      `getStaticProps of ${pageName} must return { props }, { notFound: true } or { redirect: { destination, permanent } }`
+    );
+  }
+
+  return {
+    type: "props",
+    props: result.props,
+    revalidate: normalizeRevalidate(result.revalidate, pageName),
+    tags: normalizeTags(result.tags, pageName),
+  };
+}
+
+export const REDIRECTS_FILE = "redirects.json";
+
+const getRedirectsPath = (projectDir: string) => path.resolve(projectDir, CONFIG.BUILD_DIR, "cache", REDIRECTS_FILE);
+
+/**
+ * Load the redirects emitted by getStaticProps, keyed by page name
+ */
+export function loadRedirects(projectDir: string): { [pageName: string]: StaticRedirect } {
+  try {
+    return JSON.parse(fs.readFileSync(getRedirectsPath(projectDir), "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+export function saveRedirects(projectDir: string, redirects: { [pageName: string]: StaticRedirect }): void {
+  const redirectsPath = getRedirectsPath(projectDir);
+  fs.mkdirSync(path.dirname(redirectsPath), { recursive: true });
+  fs.writeFileSync(redirectsPath, JSON.stringify(redirects, null, 2), "utf-8");
+}
+
+const escapeHtmlAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * HTML written in place of a redirected page, for hosts that serve the build
+ * directory without the StaticJS server
+ */
+export function renderRedirectStub(redirect: StaticRedirect): string {
+  const destination = escapeHtmlAttribute(redirect.destination);
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="refresh" content="0; url=${destination}">
+<meta name="robots" content="noindex">
+<link rel="canonical" href="${destination}">
+<title>Redirecting…</title>
+</head>
+<body><a href="${destination}">Redirecting to ${destination}</a></body>
+</html>
+`;
+}
@@ -1,6 +1,7 @@
 import fs from "fs";
 import path from "path";
-import {findClosestLayout} from "./layoutDiscovery.js";
+import {findLayouts} from "./layoutDiscovery.js";
+import {isFlatPageFile} from "./readPages.js";
 
 /**
  * Find a style file in a directory with the given base name,
@@ -18,8 +19,11 @@ function findStyleFileByName(dir: string, baseName: string): string | null {
 /**
  * Discovers all style files for a page, collecting:
  * 1. global.scss/css from the pages root directory (applied everywhere)
- * 2. layout.scss/css next to the closest layout.tsx (applied to all pages using that layout)
- * 3. page.scss/css (or style.scss/css fallback) next to the page's index.tsx
+ * 2. layout.scss/css next to each layout.tsx wrapping the page, from the root layout down
+ *    (applied to all pages using that layout, including a (group)/layout.scss for the
+ *    pages of that route group)
+ * 3. page.scss/css (or style.scss/css fallback) next to the page's index.tsx,
+ *    or <name>.scss/css next to a flat-file page
  *
  * Returns files in cascade order: global -> layout -> page
  */
@@ -34,18 +38,19 @@ export function findStyleFiles(pagePath: string, rootDir: string): string[] {
     styleFiles.push(globalStyle);
   }
 
-  // 2. Layout styles: layout.scss/css next to the closest layout.tsx
-  const layoutPath = findClosestLayout(pagePath, rootDir);
-  if (layoutPath) {
-    const layoutDir = path.dirname(layoutPath);
-    const layoutStyle = findStyleFileByName(layoutDir, "layout");
+  // 2. Layout styles: layout.scss/css next to each layout.tsx of the chain
+  for (const layoutPath of findLayouts(pagePath, rootDir)) {
+    const layoutStyle = findStyleFileByName(path.dirname(layoutPath), "layout");
     if (layoutStyle) {
       styleFiles.push(layoutStyle);
     }
   }
 
-  // 3. Page styles: page.scss/css next to index.tsx (with style.scss/css fallback)
-  const pageStyle = findStyleFileByName(pageDir, "page") || findStyleFileByName(pageDir, "style");
+  // 3. Page styles: page.scss/css next to index.tsx (with style.scss/css fallback),
+  //    or <name>.scss/css next to a flat-file page (about.tsx -> about.scss)
+  const pageStyle = isFlatPageFile(pagePath)
+    ? findStyleFileByName(pageDir, path.basename(pagePath, path.extname(pagePath)))
+    : findStyleFileByName(pageDir, "page") || findStyleFileByName(pageDir, "style");
   if (pageStyle) {
     styleFiles.push(pageStyle);
   }
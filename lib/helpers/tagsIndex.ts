@@ -0,0 +1,48 @@
+import fs from "fs";
+import path from "path";
+import { CONFIG } from "../server/config/index.js";
+
+/**
+ * Page names rendered from each tag returned by getStaticProps (e.g. "offer:42" -> ["offers/42", "home"])
+ */
+export type TagsIndex = { [tag: string]: string[] };
+
+export const TAGS_INDEX_FILE = "tagsIndex.json";
+
+const getTagsIndexPath = (projectDir: string) => path.resolve(projectDir, CONFIG.BUILD_DIR, "cache", TAGS_INDEX_FILE);
+
+export function loadTagsIndex(projectDir: string): TagsIndex {
+  try {
+    return JSON.parse(fs.readFileSync(getTagsIndexPath(projectDir), "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+export function saveTagsIndex(projectDir: string, index: TagsIndex): void {
+  const indexPath = getTagsIndexPath(projectDir);
+  fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+  fs.writeFileSync(indexPath, JSON.stringify(index, null, 2), "utf-8");
+}
+
+/**
+ * Replace the tags of a page in the index (no tags removes the page from it)
+ */
+export function setPageTags(index: TagsIndex, pageName: string, tags: string[] = []): void {
+  for (const tag of Object.keys(index)) {
+    if (tags.includes(tag)) continue;
+    index[tag] = index[tag].filter((name) => name !== pageName);
+    if (index[tag].length === 0) delete index[tag];
+  }
+
+  for (const tag of tags) {
+    index[tag] = [...new Set([...(index[tag] || []), pageName])].sort();
+  }
+}
+
+/**
+ * Page names rendered from any of the given tags. Unknown tags match no page.
+ */
+export function getPagesForTags(index: TagsIndex, tags: string[]): string[] {
+  return [...new Set(tags.flatMap((tag) => (Object.prototype.hasOwnProperty.call(index, tag) ? index[tag] : [])))].sort();
+}
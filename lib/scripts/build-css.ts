@@ -3,6 +3,9 @@ import fsSync from "fs";
 import path from "path";
 import { CONFIG } from "../server/config/index.js";
 import { loadStylesCache, loadCacheEntries } from "../helpers/cachePages.js";
+import { getRouteFileKey } from "../helpers/routeSegments.js";
+import { hashInputs, isUpToDate, loadBuildManifest, ManifestEntry, saveBuildManifest } from "../helpers/buildManifest.js";
+import { createDependencyResolver } from "../helpers/sourceDependencies.js";
 
 /**
  * Compile a single SCSS/CSS file using Vite's internal sass handling
@@ -33,7 +36,8 @@ async function compileScss(filePath: string): Promise<string> {
 }
 
 /**
- * Build CSS for all pages with styles
+ * Build CSS for all pages with styles, skipping outputs whose style files
+ * (and the partials they @use/@import) are unchanged since the last build
  */
 async function buildCss(): Promise<void> {
     // Ensure cache is generated
@@ -49,10 +53,26 @@ async function buildCss(): Promise<void> {
 
     console.log(`\nBuilding CSS for ${pagesWithStyles.length} page(s)...`);
 
+    const manifest = loadBuildManifest(CONFIG.PROJECT_ROOT);
+    const resolveDependencies = createDependencyResolver(CONFIG.PROJECT_ROOT);
+    let skipped = 0;
+
     for (const pageName of pagesWithStyles) {
         const styleFiles = stylesCache[pageName];
+        // Determine output path (handle dynamic routes)
+        const outputName = getRouteFileKey(pageName);
+        const outputPath = path.join(CONFIG.PROJECT_ROOT, CONFIG.BUILD_DIR, `${outputName}.css`);
 
         try {
+            const entry: ManifestEntry = {
+                route: pageName,
+                inputs: hashInputs(CONFIG.PROJECT_ROOT, styleFiles.flatMap(resolveDependencies)),
+            };
+            if (isUpToDate(manifest.css[outputName], entry, outputPath)) {
+                skipped++;
+                continue;
+            }
+
             // Compile all style files and concatenate
             const compiledStyles: string[] = [];
 
@@ -63,10 +83,6 @@ async function buildCss(): Promise<void> {
 
             const finalCss = compiledStyles.join("\n\n");
 
-            // Determine output path (handle dynamic routes)
-            const outputName = pageName.replace(/\[([^\]]+)\]/g, '$1');
-            const outputPath = path.join(CONFIG.PROJECT_ROOT, CONFIG.BUILD_DIR, `${outputName}.css`);
-
             // Create directories if needed
             const outputDir = path.dirname(outputPath);
             if (!fsSync.existsSync(outputDir)) {
@@ -75,11 +91,19 @@ async function buildCss(): Promise<void> {
 
             // Write compiled CSS
             await fs.writeFile(outputPath, finalCss, "utf-8");
+            manifest.css[outputName] = entry;
             console.log(`✓ ${outputName}.css`);
         } catch (error) {
+            delete manifest.css[outputName];
             console.error(`Error building CSS for ${pageName}:`, error);
         }
     }
+
+    saveBuildManifest(CONFIG.PROJECT_ROOT, manifest);
+
+    if (skipped > 0) {
+        console.log(`${skipped} stylesheet(s) unchanged since the last build, skipped.`);
+    }
 }
 
 // Run if executed directly
@@ -1,22 +1,30 @@
 import fs from "fs/promises";
+import fsSync from "fs";
 import crypto from "node:crypto";
 import path from "path";
-import Module from "node:module";
+import {pathToFileURL} from "node:url";
 import React from "react";
 import {createPage} from "../helpers/createPage.js";
 import {CONFIG} from "../server/config/index.js";
-import {loadCacheEntries, loadStylesCache} from "../helpers/cachePages.js";
-import {findClosestLayout} from "../helpers/layoutDiscovery.js";
-
-// Register a no-op handler for CSS files so that Node.js doesn't try to parse
-// them as JavaScript when a third-party library (e.g. trilogy-react) requires one.
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const extensions: Record<string, any> = (Module as any)._extensions;
-for (const ext of ['.css', '.scss', '.sass', '.less']) {
-    if (!extensions[ext]) {
-        extensions[ext] = () => {};
-    }
-}
+import {loadCacheEntries, loadStylesCache, processCliArgs} from "../helpers/cachePages.js";
+import {findLayouts} from "../helpers/layoutDiscovery.js";
+import {clearLayoutPropsCache, composeLayouts} from "../helpers/composeLayouts.js";
+import {getPageDataPath, readPages} from "../helpers/readPages.js";
+import {assertUnambiguousRoutes, matchRoute} from "../helpers/routeMatcher.js";
+import {buildPagePath, getRouteFileKey, isDynamicRoute} from "../helpers/routeSegments.js";
+import {createLimiter} from "../helpers/concurrency.js";
+import {BuildFailure, BuildReport, printFailureSummary, toBuildFailure, writeBuildReport} from "../helpers/buildReport.js";
+import {hashInputs, hashProps, isUpToDate, loadBuildManifest, ManifestEntry, saveBuildManifest} from "../helpers/buildManifest.js";
+import {createDependencyResolver} from "../helpers/sourceDependencies.js";
+import {loadTagsIndex, saveTagsIndex, setPageTags} from "../helpers/tagsIndex.js";
+import {clearSourceModuleCache, isBuildRunning, loadSourceModule, withBuildRunning} from "../helpers/moduleLoader.js";
+import {
+    loadRedirects,
+    normalizeRevalidate,
+    normalizeStaticPropsResult,
+    renderRedirectStub,
+    saveRedirects,
+} from "../helpers/staticProps.js";
 
 async function loadJson(filePath: string, fallback: any = null) {
     try {
@@ -27,28 +35,87 @@ async function loadJson(filePath: string, fallback: any = null) {
     }
 }
 
-async function main() {
-    // CLI args: specific paths to rebuild (empty = rebuild all)
-    const requestedPaths = process.argv.slice(2);
+/**
+ * What a build of the requested page names would do
+ */
+export interface BuildPlan {
+    /** HTML files that would be written, relative to the build directory */
+    outputs: string[];
+    /** Requested page names that no page (or getStaticPaths entry) would generate */
+    notGenerated: string[];
+    /** Pages whose module or getStaticPaths failed */
+    failures: BuildFailure[];
+}
+
+interface BuildOptions {
+    /** List the pages that would be rendered (in `built`) without calling getStaticProps or writing anything */
+    dryRun?: boolean;
+    /** Pages to build, instead of the page cache written by cachePages */
+    pages?: { [pageName: string]: string };
+}
+
+/**
+ * Render every page (or only the requested page names) and collect per-page failures.
+ * Outputs whose sources and props are unchanged since the last build are skipped.
+ * @param allPages - Every page of the project, used to prune outputs of deleted pages
+ */
+async function buildPages(
+    requestedPaths: string[],
+    allPages: { [pageName: string]: string },
+    options: BuildOptions = {}
+): Promise<BuildReport> {
+    const startedAt = new Date();
+    const built: string[] = [];
+    const skipped: string[] = [];
+    const notFound: string[] = [];
+    const redirected: string[] = [];
+    const failures: BuildFailure[] = [];
+    const manifest = loadBuildManifest(CONFIG.PROJECT_ROOT);
+    const redirects = loadRedirects(CONFIG.PROJECT_ROOT);
+    const tagsIndex = loadTagsIndex(CONFIG.PROJECT_ROOT);
+    const resolveDependencies = createDependencyResolver(CONFIG.PROJECT_ROOT);
+    const preparedRoutes = new Set<string>();
+    const rootDir = path.resolve(CONFIG.PROJECT_ROOT, "./src");
 
-    const files = loadCacheEntries(CONFIG.PROJECT_ROOT, true);
+    const files = options.pages ?? loadCacheEntries(CONFIG.PROJECT_ROOT, true);
     const excludedJSFiles: string[] = await loadJson(
         path.join(CONFIG.PROJECT_ROOT, CONFIG.BUILD_DIR, "cache/excludedFiles.json"),
         []
     );
     const stylesCache = loadStylesCache(CONFIG.PROJECT_ROOT);
 
-    const processPage = async (page: { path: string; pageName: string }) => {
+    /**
+     * Everything needed to render one output HTML file: static pages yield one job,
+     * dynamic pages one job per getStaticPaths entry
+     */
+    interface RenderJob {
+        page: { path: string; pageName: string };
+        pageName: string;
+        staticPathParam?: any;
+        getStaticProps?: (context?: any) => Promise<any>;
+        App: React.FC<any>;
+        /** Layouts wrapping the page, root layout first */
+        layoutPaths: string[];
+        PageComponent: () => React.JSX.Element;
+        initialDatasId: string;
+        rootId: string;
+        JSfileName: string | false;
+        CSSfileName: string | false;
+        pageData: any;
+        inputs: ManifestEntry["inputs"];
+        revalidate?: number;
+    }
+
+    // Load the page modules and expand getStaticPaths into render jobs
+    const preparePage = async (page: { path: string; pageName: string }): Promise<RenderJob[]> => {
         try {
-            let data;
             const absolutePath = page.path;
-            const pageModule = await import(absolutePath);
-            const appModule = await import(`${CONFIG.PROJECT_ROOT}/src/pages/app.tsx`);
-            const fileName = path.basename(page.path, path.extname(page.path));
+            const appPath = `${CONFIG.PROJECT_ROOT}/src/pages/app.tsx`;
+            const pageModule = loadSourceModule(absolutePath);
+            const appModule = loadSourceModule(appPath);
 
-            // Load page data.json if it exists
-            const pageDir = path.dirname(absolutePath);
-            const dataJsonPath = path.join(pageDir, 'data.json');
+            // Load page data.json (or <name>.data.json for flat-file pages) if it exists
+            const dataJsonPath = getPageDataPath(absolutePath);
             let pageData = {};
             
             try {
@@ -58,34 +125,8 @@ async function main() {
                 // data.json doesn't exist, use empty object
             }
 
-            // Discover the closest layout for this page (optional)
-            const rootDir = path.resolve(CONFIG.PROJECT_ROOT, "./src");
-            const layoutPath = findClosestLayout(absolutePath, rootDir);
-
-            let AppComponent: React.FC<{ Component: React.FC; props: any; pageData?: any }>;
-
-            if (layoutPath) {
-                const layoutModule = await import(layoutPath);
-                const LayoutComponent = layoutModule.Layout;
-
-                if (!LayoutComponent) {
-                    throw new Error(`Layout component not found in ${layoutPath}. Make sure it exports 'Layout'.`);
-                }
-
-                AppComponent = ({ Component, props }: { Component: React.FC; props: any; pageData?: any }) => {
-                    const LayoutWrapper = ({ children }: { children: React.ReactNode }) => {
-                        return React.createElement(LayoutComponent, { pageData, children });
-                    };
-                    return React.createElement(LayoutWrapper, {
-                        children: React.createElement(appModule.App, { Component, props, pageData })
-                    });
-                };
-            } else {
-                // No layout: render with App component only
-                AppComponent = ({ Component, props }: { Component: React.FC; props: any; pageData?: any }) => {
-                    return React.createElement(appModule.App, { Component, props, pageData });
-                };
-            }
+            // Layouts wrapping this page, from the root layout down (optional)
+            const layoutPaths = findLayouts(absolutePath, rootDir);
 
             const PageComponent = pageModule.default;
             const getStaticProps = pageModule?.getStaticProps;
@@ -94,7 +135,7 @@ async function main() {
             const hasStyles = stylesCache[page.pageName] && stylesCache[page.pageName].length > 0;
 
             // Replace [param] with param name so the hash matches between JS and HTML
-            const hashKey = page.pageName.replace(/\[([^\]]+)\]/g, '$1');
+            const hashKey = getRouteFileKey(page.pageName);
             const rootId = crypto
                 .createHash("sha256")
                 .update(`app-${hashKey}`)
@@ -111,82 +152,228 @@ async function main() {
                 throw new Error(`Failed to import PageComponent from ${page.pageName}.tsx`);
             }
 
+            // Every source file the page output depends on, for incremental builds
+            const inputs = hashInputs(CONFIG.PROJECT_ROOT, [
+                ...resolveDependencies(absolutePath),
+                ...resolveDependencies(appPath),
+                ...layoutPaths.flatMap(resolveDependencies),
+                dataJsonPath,
+                ...(stylesCache[page.pageName] || []).flatMap(resolveDependencies),
+            ]);
+
+            const baseJob = {
+                page,
+                inputs,
+                // ISR period exported by the page; getStaticProps can override it
+                revalidate: normalizeRevalidate(pageModule.revalidate, page.pageName),
+                getStaticProps,
+                App: appModule.App,
+                layoutPaths,
+                PageComponent,
+                initialDatasId,
+                rootId,
+                pageData,
+            };
+
+            preparedRoutes.add(page.pageName);
+
+            // Handle static routes (pages without getStaticPaths)
+            if (!getStaticPaths) {
+                delete manifest.routes[page.pageName];
+                return [{
+                    ...baseJob,
+                    pageName: page.pageName,
+                    JSfileName: injectJS && page.pageName,
+                    CSSfileName: hasStyles && page.pageName,
+                }];
+            }
+
             // Handle dynamic routes (pages with both getStaticProps and getStaticPaths)
-            if (getStaticPaths) {
-                const {paths} = await getStaticPaths();
-                if (paths && Array.isArray(paths)) {
-                    for (const param of paths) {
-                        if (param && param.params) {
-                            // Extract ALL parameter names from page name (e.g., "guide-pratique/[category]/[article]" -> ["category", "article"])
-                            const paramMatches = [...page.pageName.matchAll(/\[([^\]]+)\]/g)];
-                            const paramKeys = paramMatches.map(m => m[1]);
-
-                            // Check that all param values exist
-                            const allParamsPresent = paramKeys.length > 0 && paramKeys.every(key => param.params[key]);
-                            if (allParamsPresent) {
-                                // Replace each [param] with its actual value
-                                let pageName = page.pageName;
-                                for (const key of paramKeys) {
-                                    pageName = pageName.replace(`[${key}]`, param.params[key]);
-                                }
-
-                                // Skip this instance if specific paths were requested and it's not one of them
-                                if (requestedPaths.length > 0 && !requestedPaths.includes(pageName)) {
-                                    continue;
-                                }
-
-                                const {props} = await getStaticProps(param);
-                                // For dynamic routes, replace [param] with param name (e.g., guide-pratique/[category] -> guide-pratique/category)
-                                const JSfileName =
-                                    injectJS && page.pageName.replace(/\[([^\]]+)\]/g, '$1');
-
-                                // For dynamic routes, CSS follows same pattern as JS
-                                const CSSfileName = hasStyles && page.pageName.replace(/\[([^\]]+)\]/g, '$1');
-
-                                await createPage({
-                                    data: props.data,
-                                    AppComponent,
-                                    PageComponent,
-                                    initialDatasId,
-                                    rootId,
-                                    pageName,
-                                    JSfileName: JSfileName,
-                                    CSSfileName: CSSfileName,
-                                    pageData,
-                                });
-
-                                console.log(`✓ ${pageName}.html`);
+            const jobs: RenderJob[] = [];
+            const toJob = (pageName: string, param: any): RenderJob => ({
+                ...baseJob,
+                pageName,
+                staticPathParam: param,
+                // For dynamic routes, replace [param] with param name (e.g., guide-pratique/[category] -> guide-pratique/category)
+                JSfileName: injectJS && getRouteFileKey(page.pageName),
+                // For dynamic routes, CSS follows same pattern as JS
+                CSSfileName: hasStyles && getRouteFileKey(page.pageName),
+            });
+
+            // Concrete paths requested for this route are rendered with the params extracted
+            // from the URL, without listing every path: those already generated from it, and
+            // any path of a route that renders unknown paths on demand (fallback: 'blocking')
+            const routePaths = requestedPaths
+                .map((requestedPath) => ({requestedPath, match: matchRoute(requestedPath, allPages)}))
+                .filter(({match}) => match?.pageName === page.pageName);
+            const directPaths = routePaths.filter(({requestedPath}) =>
+                manifest.html[requestedPath]?.route === page.pageName ||
+                manifest.routes[page.pageName]?.fallback === "blocking"
+            );
+            for (const {requestedPath, match} of directPaths) {
+                jobs.push(toJob(requestedPath, {params: match!.params}));
+            }
+            if (requestedPaths.length > 0 && directPaths.length === routePaths.length) {
+                return jobs;
+            }
+
+            const {paths, fallback} = await getStaticPaths();
+            if (fallback === true) {
+                console.warn(`fallback: true is not supported (${page.pageName}), use 'blocking' or false`);
+            }
+            manifest.routes[page.pageName] = {fallback: fallback === "blocking" ? "blocking" : false};
+
+            if (paths && Array.isArray(paths)) {
+                for (const param of paths) {
+                    if (param && param.params) {
+                        // Replace each [param] with its actual value; catch-all values are
+                        // joined into nested paths (e.g. "docs/[...slug]" + ["a", "b"] -> "docs/a/b")
+                        const pageName = isDynamicRoute(page.pageName)
+                            ? buildPagePath(page.pageName, param.params)
+                            : null;
+
+                        if (pageName) {
+                            // Skip this instance if specific paths were requested and it's not one of them
+                            // (or was already queued with the params from its URL)
+                            if (requestedPaths.length > 0 && !requestedPaths.includes(pageName)) {
+                                continue;
+                            }
+                            if (jobs.some((job) => job.pageName === pageName)) {
+                                continue;
                             }
-                        } else {
-                            console.warn(`Skipping invalid path parameter for ${page.pageName}:`, param);
+
+                            jobs.push(toJob(pageName, param));
                         }
+                    } else {
+                        console.warn(`Skipping invalid path parameter for ${page.pageName}:`, param);
                     }
-                } else {
-                    console.warn(`No valid paths returned from getStaticPaths for ${page.pageName}`);
                 }
             } else {
-                // Handle static routes (pages without getStaticPaths)
-                if (getStaticProps) {
-                    const {props} = await getStaticProps();
-                    data = props.data;
-                }
+                console.warn(`No valid paths returned from getStaticPaths for ${page.pageName}`);
+            }
 
-                await createPage({
-                    data,
-                    AppComponent,
-                    PageComponent,
-                    initialDatasId,
-                    rootId,
-                    pageName: page.pageName,
-                    JSfileName: injectJS && page.pageName,
-                    CSSfileName: hasStyles && page.pageName,
-                    pageData,
-                });
+            // fallback: 'blocking' renders requested paths that getStaticPaths didn't return,
+            // with the params extracted by the route matcher (on-demand rendering)
+            if (fallback === "blocking") {
+                for (const requestedPath of requestedPaths) {
+                    if (jobs.some((job) => job.pageName === requestedPath)) continue;
 
-                console.log(`✓ ${page.pageName}.html`);
+                    const match = matchRoute(requestedPath, allPages);
+                    if (match?.pageName === page.pageName) {
+                        jobs.push(toJob(requestedPath, {params: match.params}));
+                    }
+                }
             }
+
+            return jobs;
         } catch (error) {
             console.error(`Error processing ${page.pageName}:`, error);
+            failures.push(toBuildFailure(page.pageName, page.pageName, error));
+            return [];
+        }
+    };
+
+    // Fetch the page props and write the HTML file (or the redirect stub)
+    const renderPage = async (job: RenderJob) => {
+        const outputPath = path.join(CONFIG.PROJECT_ROOT, CONFIG.BUILD_DIR, `${job.pageName}.html`);
+
+        if (options.dryRun) {
+            built.push(job.pageName);
+            return;
+        }
+
+        try {
+            let props;
+            let revalidate = job.revalidate;
+            let tags: string[] | undefined;
+            if (job.getStaticProps) {
+                const result = normalizeStaticPropsResult(
+                    job.staticPathParam
+                        ? await job.getStaticProps(job.staticPathParam)
+                        : await job.getStaticProps(),
+                    job.pageName
+                );
+
+                if (result.type === "notFound") {
+                    // Drop the page, including HTML generated by a previous build
+                    delete manifest.html[job.pageName];
+                    delete redirects[job.pageName];
+                    setPageTags(tagsIndex, job.pageName);
+                    fsSync.rmSync(outputPath, {force: true});
+                    console.log(`∅ ${job.pageName} (not found)`);
+                    notFound.push(job.pageName);
+                    return;
+                }
+
+                if (result.type === "redirect") {
+                    fsSync.mkdirSync(path.dirname(outputPath), {recursive: true});
+                    fsSync.writeFileSync(outputPath, renderRedirectStub(result.redirect));
+                    manifest.html[job.pageName] = {
+                        route: job.page.pageName,
+                        inputs: job.inputs,
+                        propsHash: hashProps({redirect: result.redirect}),
+                        generatedAt: new Date().toISOString(),
+                        revalidate: result.revalidate ?? revalidate,
+                    };
+                    redirects[job.pageName] = result.redirect;
+                    setPageTags(tagsIndex, job.pageName, result.tags);
+                    console.log(`↪ ${job.pageName}.html -> ${result.redirect.destination}`);
+                    redirected.push(job.pageName);
+                    return;
+                }
+
+                props = result.props;
+                revalidate = result.revalidate ?? revalidate;
+                tags = result.tags;
+            }
+
+            delete redirects[job.pageName];
+            // Tags don't change the HTML: they are indexed even when the page is skipped
+            setPageTags(tagsIndex, job.pageName, tags);
+
+            // getLayoutProps is called once per layout for the whole build
+            const {AppComponent, layoutProps, layoutData} = await composeLayouts(job.App, job.layoutPaths, job.pageData, rootDir);
+            const hasLayoutProps = layoutProps.some((layoutProp) => Object.keys(layoutProp).length > 0);
+
+            const entry: ManifestEntry = {
+                route: job.page.pageName,
+                inputs: job.inputs,
+                // Layout props are part of the output too (e.g. a CMS navigation)
+                propsHash: hashProps(hasLayoutProps ? {props, layoutProps} : props),
+                generatedAt: new Date().toISOString(),
+                revalidate,
+            };
+            if (isUpToDate(manifest.html[job.pageName], entry, outputPath)) {
+                // Same HTML as before, but it is now fresh again for ISR
+                manifest.html[job.pageName] = entry;
+                skipped.push(job.pageName);
+                return;
+            }
+
+            await createPage({
+                props,
+                AppComponent,
+                layoutData,
+                PageComponent: job.PageComponent,
+                initialDatasId: job.initialDatasId,
+                rootId: job.rootId,
+                pageName: job.pageName,
+                JSfileName: job.JSfileName,
+                CSSfileName: job.CSSfileName,
+                pageData: job.pageData,
+            });
+
+            manifest.html[job.pageName] = entry;
+            console.log(`✓ ${job.pageName}.html`);
+            built.push(job.pageName);
+        } catch (error) {
+            // Keep serving the previous output, but make sure the next build retries this page
+            const previous = manifest.html[job.pageName];
+            if (previous) {
+                manifest.html[job.pageName] = {...previous, propsHash: undefined};
+            }
+            console.error(`Error processing ${job.pageName}:`, error);
+            failures.push(toBuildFailure(job.pageName, job.page.pageName, error, job.staticPathParam?.params));
         }
     };
 
@@ -195,9 +382,159 @@ async function main() {
         path: path as string,
     }));
 
-    for (const page of pages) {
-        await processPage(page);
+    // Pages and their getStaticPaths instances share a single concurrency limit
+    const limit = createLimiter(CONFIG.BUILD_CONCURRENCY);
+    const jobs = (await Promise.all(pages.map((page) => limit(() => preparePage(page))))).flat();
+    await Promise.all(jobs.map((job) => limit(() => renderPage(job))));
+
+    // On full builds, remove the outputs of deleted pages and of getStaticPaths
+    // entries that are no longer returned
+    if (requestedPaths.length === 0 && !options.dryRun) {
+        const rendered = new Set(jobs.map((job) => job.pageName));
+        for (const [pageName, entry] of Object.entries(manifest.html)) {
+            if (rendered.has(pageName) || (allPages[entry.route] && !preparedRoutes.has(entry.route))) continue;
+
+            delete manifest.html[pageName];
+            delete redirects[pageName];
+            setPageTags(tagsIndex, pageName);
+            fsSync.rmSync(path.join(CONFIG.PROJECT_ROOT, CONFIG.BUILD_DIR, `${pageName}.html`), {force: true});
+            console.log(`🗑  ${pageName}.html (removed)`);
+        }
+
+        for (const route of Object.keys(manifest.routes)) {
+            if (!allPages[route]) delete manifest.routes[route];
+        }
+    }
+
+    if (!options.dryRun) {
+        saveBuildManifest(CONFIG.PROJECT_ROOT, manifest);
+        saveRedirects(CONFIG.PROJECT_ROOT, redirects);
+        saveTagsIndex(CONFIG.PROJECT_ROOT, tagsIndex);
     }
+
+    if (skipped.length > 0) {
+        console.log(`\n${skipped.length} page(s) unchanged since the last build, skipped.`);
+    }
+
+    return {
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        success: failures.length === 0,
+        built: built.sort(),
+        skipped: skipped.sort(),
+        notFound: notFound.sort(),
+        redirected: redirected.sort(),
+        failures: failures.sort((a, b) => a.pageName.localeCompare(b.pageName)),
+    };
 }
 
-main();
+/**
+ * Build the HTML of every page (or only the requested page names) and write
+ * the build report. Used by the CLI, and in-process by the server to revalidate pages.
+ * @throws If sibling dynamic routes can't be ranked against each other
+ */
+export async function buildHtml(requestedPaths: string[] = []): Promise<BuildReport> {
+    const pagesDir = path.resolve(CONFIG.PROJECT_ROOT, "src/pages");
+    const allPages = readPages(pagesDir);
+    assertUnambiguousRoutes(allPages);
+
+    // The page cache holds every page: only prepare the routes of the requested paths
+    const pages = requestedPaths.length > 0 ? processCliArgs(requestedPaths, pagesDir) : undefined;
+    const report = await withBuildRunning(() => {
+        // Re-import pages and the modules they use, and call getLayoutProps again:
+        // a long-running server builds several times
+        clearSourceModuleCache(CONFIG.PROJECT_ROOT);
+        clearLayoutPropsCache();
+        return buildPages(requestedPaths, allPages, {pages});
+    });
+    writeBuildReport(path.join(CONFIG.PROJECT_ROOT, CONFIG.BUILD_DIR), report);
+    return report;
+}
+
+/**
+ * List the HTML files a build of the requested page names (all pages when empty)
+ * would write, resolving dynamic routes and calling getStaticPaths, but without
+ * calling getStaticProps or writing anything
+ * @throws If sibling dynamic routes can't be ranked against each other
+ */
+export async function planHtml(requestedPaths: string[] = []): Promise<BuildPlan> {
+    const pagesDir = path.resolve(CONFIG.PROJECT_ROOT, "src/pages");
+    const allPages = readPages(pagesDir);
+    assertUnambiguousRoutes(allPages);
+
+    const pages = requestedPaths.length > 0 ? processCliArgs(requestedPaths, pagesDir) : allPages;
+
+    // A dry run can arrive while a revalidation builds pages: it then uses the
+    // modules that build loaded, instead of re-importing them under it
+    if (!isBuildRunning()) {
+        clearSourceModuleCache(CONFIG.PROJECT_ROOT);
+    }
+    const report = await buildPages(requestedPaths, allPages, {dryRun: true, pages});
+
+    return {
+        outputs: report.built.map((pageName) => `${pageName}.html`),
+        notGenerated: requestedPaths.filter((requestedPath) => !report.built.includes(requestedPath)),
+        failures: report.failures,
+    };
+}
+
+/**
+ * Print a build plan (--dry-run)
+ */
+function printPlan(plan: BuildPlan): void {
+    console.log(`\n${plan.outputs.length} file(s) would be written to ${CONFIG.BUILD_DIR}:`);
+    for (const output of plan.outputs) {
+        console.log(`  ${output}`);
+    }
+    if (plan.notGenerated.length > 0) {
+        console.log(`\nNo page would be generated for: ${plan.notGenerated.join(", ")}`);
+    }
+    if (plan.failures.length > 0) {
+        printFailureSummary(plan.failures);
+    }
+}
+
+async function main() {
+    // CLI args: specific paths to rebuild (empty = rebuild all), and --dry-run
+    const args = process.argv.slice(2);
+    const requestedPaths = args.filter((arg) => arg !== "--dry-run");
+
+    if (args.includes("--dry-run")) {
+        try {
+            const plan = await planHtml(requestedPaths);
+            printPlan(plan);
+            if (plan.failures.length > 0) process.exit(1);
+        } catch (error) {
+            console.error(`\n❌ ${(error as Error).message}`);
+            process.exit(1);
+        }
+        return;
+    }
+
+    // Refuse to build when sibling dynamic routes can't be ranked against each other
+    let report: BuildReport;
+    try {
+        report = await buildHtml(requestedPaths);
+    } catch (error) {
+        console.error(`\n❌ ${(error as Error).message}`);
+        process.exit(1);
+    }
+
+    if (report.failures.length === 0) return;
+
+    printFailureSummary(report.failures);
+    console.error(`\nSee ${CONFIG.BUILD_DIR}/build-report.json for stack traces.`);
+
+    // Fail the build so CI doesn't deploy a site with missing pages
+    if (!CONFIG.ALLOW_PARTIAL_BUILD) {
+        process.exit(1);
+    }
+    console.warn(`\n⚠️  ALLOW_PARTIAL_BUILD is set: continuing with ${report.built.length + report.skipped.length} page(s) built.`);
+}
+
+// Only build when run as a script, not when imported by the server
+const isMainModule = process.argv[1] !== undefined && import.meta.url === pathToFileURL(process.argv[1]).href;
+
+if (isMainModule) {
+    main();
+}
@@ -2,15 +2,16 @@
 
 /**
  * CLI tool for StaticJS
- * Provides build, development, and start commands
+ * Provides build, development, start and revalidate commands
  */
 
 import {Command} from 'commander';
-import {execSync} from 'child_process';
+import {execFileSync, execSync} from 'child_process';
 import * as path from "node:path";
 import * as fs from "node:fs";
 import {fileURLToPath} from 'node:url';
 import {CONFIG} from '../server/config/index.js';
+import {isPathWithinPagesDir, isValidPath, normalizePath} from '../helpers/pagePaths.js';
 
 const program = new Command();
 
@@ -47,19 +48,31 @@ program
 program
     .command('build')
     .description('Build the static site')
-    .action(async () => {
+    .option('--allow-partial', 'Finish the build even if some pages fail to render')
+    .option('-f, --force', 'Rebuild every page and stylesheet, ignoring the build manifest')
+    .action(async (options) => {
         try {
             console.log('🔨 Building static site...');
 
-            // Clear stale cache to ensure a fresh full page scan
             const cacheDir = path.join(projectRoot, CONFIG.BUILD_DIR, 'cache');
-            if (fs.existsSync(cacheDir)) {
-                fs.rmSync(cacheDir, { recursive: true });
+            if (options.force) {
+                // Drop the build manifest too, so every output is regenerated
+                if (fs.existsSync(cacheDir)) {
+                    fs.rmSync(cacheDir, { recursive: true });
+                }
+            } else {
+                // Clear stale scan caches to ensure a fresh full page scan, but keep
+                // the build manifest so unchanged outputs are skipped
+                for (const file of ['pagesCache.json', 'excludedFiles.json', 'stylesCache.json']) {
+                    fs.rmSync(path.join(cacheDir, file), { force: true });
+                }
             }
 
             console.log("\n1️⃣ Building static HTML files from TSX...");
             const buildHtmlScript = path.join(libDir, 'scripts', 'build-html.mjs');
-            const staticHtmlFilesBuildCommand = `npx tsx "${buildHtmlScript}"`;
+            // build-html exits non-zero when a page fails, unless partial builds are allowed
+            const allowPartial = options.allowPartial ? 'ALLOW_PARTIAL_BUILD=true ' : '';
+            const staticHtmlFilesBuildCommand = `${allowPartial}npx tsx "${buildHtmlScript}"`;
             execSync(staticHtmlFilesBuildCommand, {
                 stdio: 'inherit',
                 cwd: projectRoot
@@ -138,4 +151,121 @@ program
         }
     });
 
+program
+    .command('revalidate')
+    .description('Rebuild the HTML of some pages through the running server, or locally with --offline')
+    .argument('[paths...]', 'Page paths to rebuild, e.g. blog/my-post (all pages when none is given)')
+    .option('-u, --url <url>', 'URL of the running server', `http://localhost:${CONFIG.PORT}`)
+    .option('--offline', `Rebuild the pages directly in ${CONFIG.BUILD_DIR} instead of calling the server`)
+    .option('--dry-run', 'List the HTML files that would be written, without writing anything')
+    .action(async (paths: string[], options) => {
+        try {
+            if (options.offline) {
+                revalidateOffline(paths, options.dryRun);
+            } else {
+                await revalidateOnServer(paths, options.url, options.dryRun);
+            }
+        } catch (error) {
+            console.error('\n❌ Revalidation failed:', (error as Error).message);
+            process.exit(1);
+        }
+    });
+
+/**
+ * Ask the running server to rebuild the pages, with the configured REVALIDATE_API_KEY,
+ * and print the outcome of each path once the build is done
+ */
+async function revalidateOnServer(paths: string[], url: string, dryRun: boolean): Promise<void> {
+    console.log(`♻️  Revalidating pages on ${url}${dryRun ? ' (dry run)' : ''}...`);
+
+    const apiKey = CONFIG.REVALIDATE_API_KEY;
+    const response = await fetch(`${url.replace(/\/+$/, '')}/revalidate?${dryRun ? 'dryRun=true' : 'wait=true'}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({ paths }),
+    });
+    const body = await response.json().catch(() => null);
+    const data = body?.data;
+
+    for (const { value, reason } of data?.rejected || []) {
+        console.warn(`⚠️  ${value}: ${reason}`);
+    }
+    if (data?.dryRun) {
+        console.log(`\n${data.outputs.length} file(s) would be written:`);
+        data.outputs.forEach((output: string) => console.log(`  ${output}`));
+        if (data.notGenerated.length > 0) {
+            console.log(`\nNo page would be generated for: ${data.notGenerated.join(', ')}`);
+        }
+    } else if (data?.results) {
+        for (const result of data.results) {
+            console.log(`  ${result.status === 'failed' ? '✗' : '✓'} ${result.path} (${result.status})${result.error ? `: ${result.error}` : ''}`);
+        }
+        console.log(`\nDone in ${data.durationMs}ms.`);
+    } else if (data?.statusUrl) {
+        // The build outlasted the request: it goes on in the server
+        console.log(`\nJob ${data.jobId} is ${data.status}, follow it at ${url}${data.statusUrl}`);
+    }
+
+    if (!response.ok || !body?.success) {
+        throw new Error(body ? `${body.error || body.message} (HTTP ${response.status})` : `HTTP ${response.status}`);
+    }
+    console.log('\n✅ Revalidation completed!');
+}
+
+/**
+ * Rebuild the pages directly in the build directory, with the same path
+ * validation as the /revalidate endpoint, then refresh the stylesheets
+ */
+function revalidateOffline(paths: string[], dryRun: boolean): void {
+    const pagePaths: string[] = [];
+    for (const p of paths) {
+        if (!isValidPath(p)) {
+            console.warn(`⚠️  ${p}: invalid path`);
+        } else if (!isPathWithinPagesDir(normalizePath(p), projectRoot)) {
+            console.warn(`⚠️  ${p}: no page matches this path`);
+        } else {
+            pagePaths.push(normalizePath(p));
+        }
+    }
+    // No paths means "all pages": don't fall back to a full rebuild when every path was rejected
+    if (paths.length > 0 && pagePaths.length === 0) {
+        throw new Error('No page to revalidate');
+    }
+
+    const buildHtmlScript = path.join(libDir, 'scripts', 'build-html.mjs');
+
+    // Paths are passed as arguments, never through a shell
+    if (dryRun) {
+        console.log('🔍 Resolving the pages to revalidate (dry run)...');
+        execFileSync('npx', ['tsx', buildHtmlScript, '--dry-run', ...pagePaths], {
+            stdio: 'inherit',
+            cwd: projectRoot
+        });
+        return;
+    }
+
+    console.log('♻️  Revalidating pages...');
+    const cachePagesScript = path.join(libDir, 'helpers', 'cachePages.mjs');
+    execFileSync('node', [cachePagesScript, ...pagePaths], {
+        stdio: 'inherit',
+        cwd: projectRoot
+    });
+    execFileSync('npx', ['tsx', buildHtmlScript, ...pagePaths], {
+        stdio: 'inherit',
+        cwd: projectRoot
+    });
+
+    // Only stylesheets whose sources changed are rebuilt
+    const buildCssScript = path.join(libDir, 'scripts', 'build-css.mjs');
+    execFileSync('npx', ['tsx', buildCssScript], {
+        stdio: 'inherit',
+        cwd: projectRoot
+    });
+
+    console.log('\n✅ Revalidation completed!');
+}
+
 program.parse();
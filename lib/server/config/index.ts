@@ -32,6 +32,10 @@ export interface ServerConfig {
     REVALIDATE_RATE_LIMIT_MAX: number;
     REVALIDATE_API_KEY: string;
     REVALIDATE_REQUEST_TIMEOUT: number;
+    REVALIDATE_WEBHOOK_SECRETS: string[];
+    REVALIDATE_SIGNATURE_HEADER: string;
+    REVALIDATE_TIMESTAMP_HEADER: string;
+    REVALIDATE_SIGNATURE_TOLERANCE: number;
     CORS_ORIGINS: string[];
     CACHE_MAX_AGE: number;
     HOT_RELOAD_ENABLED: boolean;
@@ -44,6 +48,12 @@ export interface ServerConfig {
     BASE_PATH: string;
     TRUST_PROXY: number | string | string[];
     DECODE_TEMPLATE_EXPRESSIONS: boolean;
+    FLAT_FILE_PAGES: boolean;
+    HYDRATE_LAYOUTS: boolean;
+    BUILD_CONCURRENCY: number;
+    FALLBACK_NOT_FOUND_TTL: number;
+    FALLBACK_MAX_PENDING: number;
+    ALLOW_PARTIAL_BUILD: boolean;
 }
 
 /**
@@ -62,6 +72,10 @@ const CONFIG_VALIDATORS: Record<keyof ServerConfig, (value: unknown) => boolean>
     REVALIDATE_RATE_LIMIT_MAX: (v) => typeof v === 'number' && v > 0 && v <= 1000,
     REVALIDATE_API_KEY: (v) => typeof v === 'string' && v.length >= 16 && v.length <= 256,
     REVALIDATE_REQUEST_TIMEOUT: (v) => typeof v === 'number' && v > 0 && v <= 600000,
+    REVALIDATE_WEBHOOK_SECRETS: (v) => Array.isArray(v) && v.every((s) => typeof s === 'string' && s.length >= 16 && s.length <= 256),
+    REVALIDATE_SIGNATURE_HEADER: (v) => typeof v === 'string' && /^[a-zA-Z0-9-]+$/.test(v),
+    REVALIDATE_TIMESTAMP_HEADER: (v) => typeof v === 'string' && /^[a-zA-Z0-9-]+$/.test(v),
+    REVALIDATE_SIGNATURE_TOLERANCE: (v) => typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= 86400,
     CORS_ORIGINS: (v) => Array.isArray(v) && v.every((o) => typeof o === 'string' && /^https?:\/\/[a-zA-Z0-9.-]+(:\d+)?$/.test(o)),
     CACHE_MAX_AGE: (v) => typeof v === 'number' && v >= 0 && v <= 31536000,
     HOT_RELOAD_ENABLED: (v) => typeof v === 'boolean',
@@ -81,6 +95,12 @@ const CONFIG_VALIDATORS: Record<keyof ServerConfig, (value: unknown) => boolean>
         (typeof v === 'string' && v.length > 0) ||
         (Array.isArray(v) && v.length > 0 && v.every((s) => typeof s === 'string' && s.length > 0)),
     DECODE_TEMPLATE_EXPRESSIONS: (v) => typeof v === 'boolean',
+    FLAT_FILE_PAGES: (v) => typeof v === 'boolean',
+    HYDRATE_LAYOUTS: (v) => typeof v === 'boolean',
+    BUILD_CONCURRENCY: (v) => typeof v === 'number' && Number.isInteger(v) && v >= 1 && v <= 64,
+    FALLBACK_NOT_FOUND_TTL: (v) => typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= 86400,
+    FALLBACK_MAX_PENDING: (v) => typeof v === 'number' && Number.isInteger(v) && v >= 1 && v <= 1000,
+    ALLOW_PARTIAL_BUILD: (v) => typeof v === 'boolean',
 };
 
 export const DEFAULT_CONFIG: ServerConfig = {
@@ -95,6 +115,10 @@ export const DEFAULT_CONFIG: ServerConfig = {
     REVALIDATE_RATE_LIMIT_MAX: 10, // stricter limit for revalidate endpoint
     REVALIDATE_API_KEY: process.env.REVALIDATE_API_KEY || '', // API key for revalidate endpoint (required in production)
     REVALIDATE_REQUEST_TIMEOUT: 2 * 60 * 1000, // 2 minutes
+    REVALIDATE_WEBHOOK_SECRETS: process.env.REVALIDATE_WEBHOOK_SECRETS?.split(',').filter(Boolean) || [], // HMAC secrets for signed webhooks (several during a rotation)
+    REVALIDATE_SIGNATURE_HEADER: 'x-webhook-signature',
+    REVALIDATE_TIMESTAMP_HEADER: 'x-webhook-timestamp',
+    REVALIDATE_SIGNATURE_TOLERANCE: 300, // seconds, 0 = signature over the body only, without timestamp
     CORS_ORIGINS: process.env.CORS_ORIGINS?.split(',').filter(Boolean) || [], // Allowed CORS origins (empty = same-origin only in prod, localhost in dev)
     CACHE_MAX_AGE: process.env.NODE_ENV === 'production' ? 86400 : 0, // 1 day in prod, no cache in dev
 
@@ -109,6 +133,12 @@ export const DEFAULT_CONFIG: ServerConfig = {
     BASE_PATH: '',
     TRUST_PROXY: 1,
     DECODE_TEMPLATE_EXPRESSIONS: false,
+    FLAT_FILE_PAGES: false, // Route about.tsx to /about and folder/page.tsx to /folder, alongside folder/index.tsx
+    HYDRATE_LAYOUTS: false, // Hydrate the layouts along with the page, in a document written by createPage
+    BUILD_CONCURRENCY: 4, // pages (and getStaticPaths instances) rendered in parallel by build-html
+    FALLBACK_NOT_FOUND_TTL: 60, // seconds a fallback: 'blocking' path without a page is answered 404 without rendering it again, 0 = never cached
+    FALLBACK_MAX_PENDING: 10, // fallback: 'blocking' paths rendered at the same time, further requests get a 503
+    ALLOW_PARTIAL_BUILD: process.env.ALLOW_PARTIAL_BUILD === 'true', // exit 0 even when some pages fail to build
 };
 
 /**
@@ -2,6 +2,7 @@ import path from "path";
 import {defineConfig, loadEnv} from "vite";
 import {addHydrationCodePlugin} from "./vite.plugin.js";
 import {loadCacheEntries} from "../../helpers/cachePages.js";
+import {getRouteFileKey} from "../../helpers/routeSegments.js";
 import {CONFIG} from "./index.js";
 
 // Load cache entries using the refactored helper function
@@ -11,7 +12,7 @@ const entries = loadCacheEntries(CONFIG.PROJECT_ROOT);
 // e.g., "partials/dynamic/[id]" -> "partials/dynamic"
 const sanitizedEntries: Record<string, string> = Object.fromEntries(
     Object.entries(entries as Record<string, string>).map(([key, value]) => [
-        key.replace(/\[([^\]]+)\]/g, '$1'),
+        getRouteFileKey(key),
         value
     ])
 );
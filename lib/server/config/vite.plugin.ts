@@ -1,6 +1,11 @@
 import crypto from "node:crypto";
+import fs from "fs";
 import path from "path";
-import {findClosestLayout} from "../../helpers/layoutDiscovery.js";
+import {findLayouts} from "../../helpers/layoutDiscovery.js";
+import {getLayoutDataId} from "../../helpers/composeLayouts.js";
+import {getPageDataPath} from "../../helpers/readPages.js";
+import {CONFIG} from "./index.js";
+import {getRouteFileKey} from "../../helpers/routeSegments.js";
 
 const getDefaultExportFunctionName = (code: string) => {
     const defaultExportRegex = /export\s+default\s+function\s+(\w+)/;
@@ -13,6 +18,62 @@ const getDefaultExportFunctionName = (code: string) => {
 };
 
 
+/**
+ * Hydration code rendering the same tree as the server (see composeLayouts and createPage):
+ * layouts > App > #app-<hash> > page, hydrated in the #layouts-<hash> element that createPage
+ * writes around them. Layout props come from the JSON scripts written by createPage, and
+ * data.json is bundled with the page.
+ */
+const getLayoutsHydrationCode = (
+    componentName: string,
+    rootId: string,
+    initialDatasId: string,
+    layoutPaths: string[],
+    rootDir: string,
+    pagePath: string,
+    toImportPath: (filePath: string) => string
+) => {
+    const pageDataPath = getPageDataPath(pagePath);
+    const hasPageData = fs.existsSync(pageDataPath);
+
+    const imports = [
+        ...layoutPaths.map((layoutPath, i) =>
+            `import { Layout as StaticLayout${i} } from "${toImportPath(layoutPath).replace('.tsx', '')}";`
+        ),
+        ...(hasPageData ? [`import staticPageData from "${toImportPath(pageDataPath)}";`] : []),
+    ];
+
+    // Innermost layout first: each one wraps the tree built so far
+    const wrapInLayouts = layoutPaths
+        .map((layoutPath, i) =>
+            `    tree = React.createElement(StaticLayout${i}, { ...readJson('${getLayoutDataId(layoutPath, rootDir)}'), pageData, children: tree });`
+        )
+        .reverse()
+        .join("\n");
+
+    return `
+${imports.join("\n")}
+
+export const rootId = 'app-${rootId}';
+export const initialDatasId = 'initial-data-${initialDatasId}';
+
+if (typeof document !== 'undefined') {
+  document.addEventListener('DOMContentLoaded', () => {
+    const readJson = (id) => {
+      const script = document.getElementById(id);
+      return script ? JSON.parse(script.textContent || '{}') : {};
+    };
+    const initialProps = document.getElementById(initialDatasId) ? readJson(initialDatasId) : {data: {title: ''}};
+    const pageData = ${hasPageData ? 'staticPageData' : '{}'};
+    const PageWithAppDiv = (props) => React.createElement('div', { id: rootId }, React.createElement(${componentName}, props));
+
+    let tree = React.createElement(App, { Component: PageWithAppDiv, props: initialProps, pageData });
+${wrapInLayouts}
+    ReactDOM.hydrateRoot(document.getElementById('layouts-${rootId}'), tree);
+  });
+}`;
+};
+
 export const addHydrationCodePlugin = (entries: { [key: string]: string }) => {
     return {
         name: "add-hydration-code",
@@ -37,25 +98,28 @@ export const addHydrationCodePlugin = (entries: { [key: string]: string }) => {
                 return null;
             }
 
-            // Find the closest layout for this page
+            // Find the layouts wrapping this page
             const rootDir = path.resolve(process.cwd(), "src");
-            const layoutPath = findClosestLayout(id, rootDir);
+            const layoutPaths = findLayouts(id, rootDir);
 
-            if (!layoutPath) {
+            if (layoutPaths.length === 0) {
                 console.warn(`No layout found for page ${id}, falling back to default App`);
                 return null;
             }
 
+            const toImportPath = (filePath: string) => {
+                const relativePath = path.relative(path.dirname(id), filePath).replace(/\\/g, '/');
+                return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+            };
+
             // Get relative path for App import (always at src/pages/app.tsx)
             const appPath = path.join(rootDir, "pages", "app.tsx");
-            const appRelativePath = path.relative(path.dirname(id), appPath).replace(/\\/g, '/');
-            const appImportPath = appRelativePath.startsWith('.') ? appRelativePath : `./${appRelativePath}`;
 
             const importReactDOM = `import ReactDOM from 'react-dom/client';`;
-            const importApp = `import { App } from "${appImportPath.replace('.tsx', '')}";`;
+            const importApp = `import { App } from "${toImportPath(appPath).replace('.tsx', '')}";`;
 
             // Replace [param] with param name so the hash matches between JS and HTML
-            const hashKey = pageName.replace(/\[([^\]]+)\]/g, '$1');
+            const hashKey = getRouteFileKey(pageName);
             const rootId = crypto
                 .createHash("sha256")
                 .update(`app-${hashKey}`)
@@ -68,15 +132,18 @@ export const addHydrationCodePlugin = (entries: { [key: string]: string }) => {
                 .digest("hex")
                 .slice(0, 10);
 
-            const additionalCode = `
+            const additionalCode = CONFIG.HYDRATE_LAYOUTS
+                ? getLayoutsHydrationCode(componentName, rootId, initialDatasId, layoutPaths, rootDir, id, toImportPath)
+                : `
 export const rootId = 'app-${rootId}';
 export const initialDatasId = 'initial-data-${initialDatasId}';
 
 if (typeof document !== 'undefined') {
   document.addEventListener('DOMContentLoaded', () => {
+    // Same props object as the server render: everything getStaticProps returned
     const initialDataScript = document.getElementById(initialDatasId);
-    const initialData = initialDataScript ? JSON.parse(initialDataScript.textContent || '{}') : {title: ''};
-    ReactDOM.hydrateRoot(document.getElementById(rootId), React.createElement(App, { Component: ${componentName}, props: {data: initialData} }));
+    const initialProps = initialDataScript ? JSON.parse(initialDataScript.textContent || '{}') : {data: {title: ''}};
+    ReactDOM.hydrateRoot(document.getElementById(rootId), React.createElement(App, { Component: ${componentName}, props: initialProps }));
   });
 }`;
             const transformedCode = importReactDOM + "\n" + importApp + "\n" + code + "\n" + additionalCode;
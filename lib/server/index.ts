@@ -18,6 +18,7 @@ import {applyLogging} from "./middleware/logging.js";
 import {applyRuntime} from "./middleware/runtime.js";
 import {applyHotReload} from "./middleware/hotReload.js";
 import {applyStatic} from "./middleware/static.js";
+import {applyRegeneration} from "./middleware/regeneration.js";
 import {applyErrorHandling} from "./middleware/errorHandling.js";
 
 // Import route handlers
@@ -67,6 +68,9 @@ export const createApp = async (): Promise<Express> => {
     // JavaScript routes are now registered before this middleware
     applyRuntime(app);
 
+    // Background regeneration of expired ISR pages (production mode only) - MUST be before static
+    applyRegeneration(app);
+
     // Static file serving - comes after runtime to avoid interfering with JS serving
     applyStatic(app);
 
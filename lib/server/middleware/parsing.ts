@@ -3,22 +3,38 @@
  * Handles JSON and URL-encoded body parsing
  */
 
-import express, { Express } from "express";
+import express, { Express, Request } from "express";
+import { IncomingMessage } from "http";
 import { CONFIG } from "../config/index.js";
 
+/**
+ * Request with the body exactly as received, needed to verify webhook signatures
+ */
+export type RequestWithRawBody = Request & { rawBody?: Buffer };
+
+/**
+ * Keep the raw body next to the parsed one
+ */
+const captureRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer): void => {
+    (req as IncomingMessage & { rawBody?: Buffer }).rawBody = buf;
+};
+
 /**
  * Apply parsing middleware to Express app
  */
 export const applyParsing = (app: Express): void => {
-    // JSON body parser with size limit
+    // JSON body parser with size limit, vendor JSON types included
+    // (e.g. application/vnd.contentful.management.v1+json), so their webhooks can be verified
     app.use(express.json({
         limit: CONFIG.BODY_SIZE_LIMIT,
-        type: 'application/json',
+        type: ['application/json', 'application/*+json'],
+        verify: captureRawBody,
     }));
 
     // URL-encoded body parser with size limit
     app.use(express.urlencoded({
         extended: true,
         limit: CONFIG.BODY_SIZE_LIMIT,
+        verify: captureRawBody,
     }));
 };
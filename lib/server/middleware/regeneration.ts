@@ -0,0 +1,177 @@
+/**
+ * On-demand page generation middleware configuration (production only)
+ * - Incremental static regeneration (ISR): serves the built HTML of pages with a
+ *   `revalidate` period and regenerates them in the background once it has expired
+ * - fallback: 'blocking': renders dynamic paths missing from the build on first request
+ */
+
+import { Request, Response, NextFunction, Express } from "express";
+import { existsSync, statSync } from "fs";
+import { extname, join } from "path";
+import { CONFIG, isDevelopment } from "../config/index.js";
+import { BUILD_MANIFEST_FILE, BuildManifest, loadBuildManifest } from "../../helpers/buildManifest.js";
+import { getPageNameFromUrl } from "../../helpers/routeSegments.js";
+import { matchRoute } from "../../helpers/routeMatcher.js";
+import { isValidPath } from "../../helpers/pagePaths.js";
+import { enqueueRevalidation, PathStatus, waitForJob } from "../utils/revalidationQueue.js";
+
+/**
+ * Regenerations (and first renders) in progress, by page name: concurrent requests share one
+ */
+const regenerations = new Map<string, Promise<PathStatus | undefined>>();
+
+/**
+ * Time of the last failed regeneration, by page name. The stale page keeps
+ * being served and the regeneration is retried after another revalidate period.
+ */
+const failedAt = new Map<string, number>();
+
+/**
+ * fallback: 'blocking' paths that produced no page, with the time until which they
+ * are answered 404 without rendering them again (FALLBACK_NOT_FOUND_TTL)
+ */
+const notFoundUntil = new Map<string, number>();
+
+/**
+ * Entries kept in notFoundUntil, oldest evicted first: made-up URLs can't grow it forever
+ */
+const MAX_NOT_FOUND_ENTRIES = 10000;
+
+/**
+ * fallback: 'blocking' paths being rendered, capped by FALLBACK_MAX_PENDING
+ */
+const pendingFallbacks = new Set<string>();
+
+const isCachedNotFound = (pageName: string): boolean => {
+    const until = notFoundUntil.get(pageName);
+    if (until === undefined) return false;
+    if (until > Date.now()) return true;
+    notFoundUntil.delete(pageName);
+    return false;
+};
+
+const cacheNotFound = (pageName: string): void => {
+    if (CONFIG.FALLBACK_NOT_FOUND_TTL === 0) return;
+    notFoundUntil.delete(pageName);
+    notFoundUntil.set(pageName, Date.now() + CONFIG.FALLBACK_NOT_FOUND_TTL * 1000);
+    if (notFoundUntil.size > MAX_NOT_FOUND_ENTRIES) {
+        notFoundUntil.delete(notFoundUntil.keys().next().value as string);
+    }
+};
+
+/**
+ * Build manifest, reloaded whenever a build or a regeneration rewrites it
+ */
+let manifestCache: { mtime: number; manifest: BuildManifest | null } = { mtime: 0, manifest: null };
+
+const getBuildManifest = (): BuildManifest | null => {
+    try {
+        const { mtimeMs } = statSync(join(CONFIG.PROJECT_ROOT, CONFIG.BUILD_DIR, "cache", BUILD_MANIFEST_FILE));
+        if (mtimeMs !== manifestCache.mtime) {
+            manifestCache = { mtime: mtimeMs, manifest: loadBuildManifest(CONFIG.PROJECT_ROOT) };
+        }
+    } catch {
+        manifestCache = { mtime: 0, manifest: null };
+    }
+    return manifestCache.manifest;
+};
+
+/**
+ * Regenerate a page (or render it for the first time) through the revalidation
+ * queue, unless a regeneration of that page is already running
+ * @returns The outcome of the page, undefined if the job failed before building it
+ */
+export const regeneratePage = (pageName: string): Promise<PathStatus | undefined> => {
+    const running = regenerations.get(pageName);
+    if (running) return running;
+
+    const regeneration = waitForJob(enqueueRevalidation({ paths: [pageName] }))
+        .then((job) => {
+            // The job may have been merged with other paths: only this page's result matters
+            const result = job.results?.find((pathResult) => pathResult.path === pageName);
+            if (!job.error && result?.status !== 'failed') {
+                failedAt.delete(pageName);
+                return result?.status;
+            }
+            failedAt.set(pageName, Date.now());
+            console.error(`[ISR] Failed to regenerate ${pageName}, serving the stale page:`, result?.error ?? job.error);
+            return result?.status;
+        })
+        .finally(() => {
+            regenerations.delete(pageName);
+        });
+
+    regenerations.set(pageName, regeneration);
+    return regeneration;
+};
+
+/**
+ * Apply ISR and fallback middleware to Express app (production mode only)
+ * Must run before the static middleware, which serves the generated HTML
+ */
+export const applyRegeneration = (app: Express): void => {
+    if (isDevelopment) return;
+
+    /**
+     * fallback: 'blocking': the request waits until the missing page is rendered and
+     * written to the build directory, so it and every later request get the static file.
+     * Paths of fallback: false routes are left to the static middleware (404).
+     */
+    app.use(async (req: Request, res: Response, next: NextFunction) => {
+        if ((req.method !== 'GET' && req.method !== 'HEAD') || extname(req.path)) return next();
+
+        const pageName = getPageNameFromUrl(req.path);
+        const manifest = getBuildManifest();
+        if (!manifest || manifest.html[pageName] || !isValidPath(pageName)) return next();
+        if (existsSync(join(CONFIG.PROJECT_ROOT, CONFIG.BUILD_DIR, `${pageName}.html`))) return next();
+
+        const blockingRoutes = Object.keys(manifest.routes).filter((route) => manifest.routes[route].fallback === "blocking");
+        if (!matchRoute(pageName, Object.fromEntries(blockingRoutes.map((route) => [route, route])))) return next();
+
+        if (isCachedNotFound(pageName)) return next();
+
+        // Requests for a path already being rendered wait for it; other paths are capped
+        if (!pendingFallbacks.has(pageName) && pendingFallbacks.size >= CONFIG.FALLBACK_MAX_PENDING) {
+            res.set('Retry-After', '5');
+            res.status(503).send('Service Unavailable');
+            return;
+        }
+
+        // build-html renders it only if the blocking route is the best match for the path;
+        // notFound or a failure leaves no HTML and the request ends in a 404
+        pendingFallbacks.add(pageName);
+        try {
+            const status = await regeneratePage(pageName);
+            if (status === 'notFound' || status === 'notGenerated') {
+                cacheNotFound(pageName);
+            }
+        } finally {
+            pendingFallbacks.delete(pageName);
+        }
+        next();
+    });
+
+    /**
+     * ISR: expired pages are regenerated in the background while the stale HTML is served
+     */
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+        if (req.method !== 'GET' && req.method !== 'HEAD') return next();
+
+        const pageName = getPageNameFromUrl(req.path);
+        const entry = getBuildManifest()?.html[pageName];
+        if (!entry?.revalidate || !entry.generatedAt) return next();
+
+        const now = Date.now();
+        const period = entry.revalidate * 1000;
+        const isExpired = now - Date.parse(entry.generatedAt) >= period;
+        const lastFailure = failedAt.get(pageName);
+        const isBackingOff = lastFailure !== undefined && now - lastFailure < period;
+
+        if (isExpired && !isBackingOff) {
+            // Don't wait: this request gets the stale page, later ones the fresh one
+            void regeneratePage(pageName);
+        }
+
+        next();
+    });
+};
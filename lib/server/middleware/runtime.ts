@@ -10,6 +10,7 @@ import { isDevelopment } from "../index.js";
 import { CONFIG } from "../config/index.js";
 import { readPages } from "../../helpers/readPages.js";
 import { findStyleFiles } from "../../helpers/styleDiscovery.js";
+import { getRouteFileKey } from "../../helpers/routeSegments.js";
 import fs from "fs";
 import path from "path";
 
@@ -99,8 +100,15 @@ export const runtimeRenderingMiddleware = async (req: Request, res: Response, ne
             // If no valid cached content, render fresh
             if (!htmlContent) {
                 // Rendering fresh content
-                htmlContent = await renderPageRuntime(req.path);
-                
+                const result = await renderPageRuntime(req.path);
+
+                // getStaticProps returned { redirect }
+                if (result && typeof result === 'object') {
+                    res.redirect(result.redirect.permanent ? 301 : 302, result.redirect.destination);
+                    return;
+                }
+                htmlContent = result;
+
                 if (htmlContent) {
                     // Cache the rendered content
                     pageCache.set(cacheKey, {
@@ -209,7 +217,7 @@ export const registerJavaScriptMiddleware = (app: Express, viteServer: ViteDevSe
             });
         } else if (pageName.includes('[') || pageName.includes(']')) {
             // Dynamic routes: register JS route with param name (e.g., partials/dynamic/[id] -> /partials/dynamic/id.js)
-            const jsRoute = `${basePath}/${pageName.replace(/\[([^\]]+)\]/g, '$1')}.js`;
+            const jsRoute = `${basePath}/${getRouteFileKey(pageName)}.js`;
             app.get(jsRoute, async (req: Request, res: Response): Promise<any> => {
                 try {
                     const pageContent = fs.readFileSync(pagesCache[pageName], 'utf8');
@@ -294,7 +302,7 @@ export const registerCSSMiddleware = (app: Express, viteServer: ViteDevServer):
             // Find matching page (handle dynamic routes: "blog/category" matches "blog/[slug]")
             let pagePath: string | null = null;
             for (const [name, filePath] of Object.entries(pages)) {
-                const normalizedName = name.replace(/\[([^\]]+)\]/g, '$1');
+                const normalizedName = getRouteFileKey(name);
                 if (normalizedName === pageName) {
                     pagePath = filePath;
                     break;
@@ -5,13 +5,61 @@
 
 import express, { Request, Response, NextFunction, Express } from "express";
 import { extname, resolve, join } from "path";
-import { existsSync } from "fs";
+import { existsSync, statSync } from "fs";
 import { CONFIG, isDevelopment } from "../config/index.js";
+import { BUILD_REPORT_FILE } from "../../helpers/buildReport.js";
+import { loadRedirects, REDIRECTS_FILE, StaticRedirect } from "../../helpers/staticProps.js";
+import { getPageNameFromUrl } from "../../helpers/routeSegments.js";
+
+/**
+ * Redirects emitted by getStaticProps, reloaded whenever a build or a
+ * revalidation rewrites the redirects manifest
+ */
+let redirectsCache: { mtime: number; redirects: { [pageName: string]: StaticRedirect } } = { mtime: 0, redirects: {} };
+
+const getRedirects = (): { [pageName: string]: StaticRedirect } => {
+    try {
+        const { mtimeMs } = statSync(join(CONFIG.PROJECT_ROOT, CONFIG.BUILD_DIR, "cache", REDIRECTS_FILE));
+        if (mtimeMs !== redirectsCache.mtime) {
+            redirectsCache = { mtime: mtimeMs, redirects: loadRedirects(CONFIG.PROJECT_ROOT) };
+        }
+    } catch {
+        redirectsCache = { mtime: 0, redirects: {} };
+    }
+    return redirectsCache.redirects;
+};
 
 /**
  * Apply static file serving middleware to Express app
  */
 export const applyStatic = (app: Express): void => {
+    /**
+     * The build report lives in the build dir but contains stack traces and
+     * local paths: never serve it
+     */
+    const buildReportUrls = [`/${BUILD_REPORT_FILE}`, `${CONFIG.BASE_PATH}/${BUILD_REPORT_FILE}`];
+    app.use((req: Request, res: Response, next: NextFunction) => {
+        if (buildReportUrls.includes(req.path)) {
+            res.status(404).end();
+            return;
+        }
+        next();
+    });
+
+    /**
+     * Redirects returned by getStaticProps: /old-page -> 301/302 to its destination
+     * instead of serving the redirect stub HTML. In development, the runtime
+     * renderer calls getStaticProps on each request and redirects itself.
+     */
+    app.use((req: Request, res: Response, next: NextFunction) => {
+        if (isDevelopment || (req.method !== 'GET' && req.method !== 'HEAD')) return next();
+
+        const redirect = getRedirects()[getPageNameFromUrl(req.path)];
+        if (!redirect) return next();
+
+        res.redirect(redirect.permanent ? 301 : 302, redirect.destination);
+    });
+
     /**
      * Clean URL rewrite: /guide-pratique -> /guide-pratique.html
      * Must run before express.static so .html files are found
@@ -1,15 +1,18 @@
 /**
  * API route handlers
- * Handles health check, pages listing, and revalidate endpoints
+ * Handles health check, pages listing, revalidate and revalidation status endpoints
  */
 
 import { Request, Response, NextFunction, Express } from "express";
 import { revalidate } from "../scripts/revalidate.js";
 import { getAvailablePagesRuntime } from "../../helpers/renderPageRuntime.js";
+import { isFlatPageFile } from "../../helpers/readPages.js";
 import { readdir } from "fs/promises";
-import { extname, join } from "path";
+import { basename, extname, join } from "path";
 import { CONFIG, isDevelopment } from "../config/index.js";
 import { revalidateLimiter } from "../middleware/rateLimiting.js";
+import { RequestWithRawBody } from "../middleware/parsing.js";
+import { getRevalidationJob, JobSummary, RevalidationJob, summarizeJob } from "../utils/revalidationQueue.js";
 import crypto from "crypto";
 
 interface PageInfo {
@@ -27,7 +30,7 @@ interface HealthInfo {
     memory: NodeJS.MemoryUsage;
 }
 
-interface ApiResponse<T = any> {
+export interface ApiResponse<T = any> {
     success: boolean;
     error?: string;
     message?: string;
@@ -67,9 +70,8 @@ export const listPages = async (req: Request, res: Response): Promise<void> => {
             const runtimePages = getAvailablePagesRuntime();
             pages = Object.keys(runtimePages).map(pageName => {
                 const filePath = runtimePages[pageName];
-                const isIndexFile = filePath.endsWith('/index.tsx');
                 return {
-                    name: isIndexFile ? `${pageName}/index.tsx` : `${pageName}.tsx`,
+                    name: isFlatPageFile(filePath) ? `${pageName}.tsx` : `${pageName}/${basename(filePath)}`,
                     path: pageName === 'index' ? '/' : `/${pageName}`,
                     file: filePath,
                 };
@@ -98,21 +100,63 @@ export const listPages = async (req: Request, res: Response): Promise<void> => {
     }
 };
 
+/**
+ * Timing-safe string comparison
+ */
+const safeEqual = (a: string, b: string): boolean => {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Verify an HMAC-SHA256 webhook signature (hex, optionally prefixed with "sha256=", or base64)
+ * against each configured secret, so that secrets can be rotated without downtime.
+ * With a timestamp tolerance, the signed payload is `${timestamp}.${rawBody}` and
+ * requests outside the window are refused, so a captured request can't be replayed later.
+ * @returns The reason the signature was refused, or null if it is valid
+ */
+const verifyWebhookSignature = (req: Request, signature: string): string | null => {
+    const rawBody = (req as RequestWithRawBody).rawBody ?? Buffer.alloc(0);
+    let payload = rawBody;
+
+    if (CONFIG.REVALIDATE_SIGNATURE_TOLERANCE > 0) {
+        const timestamp = req.get(CONFIG.REVALIDATE_TIMESTAMP_HEADER);
+        if (!timestamp || !/^\d{1,12}$/.test(timestamp)) {
+            return `Missing or invalid ${CONFIG.REVALIDATE_TIMESTAMP_HEADER} header (Unix time in seconds)`;
+        }
+        if (Math.abs(Date.now() / 1000 - Number(timestamp)) > CONFIG.REVALIDATE_SIGNATURE_TOLERANCE) {
+            return 'Timestamp outside the tolerance window';
+        }
+        payload = Buffer.concat([Buffer.from(`${timestamp}.`), rawBody]);
+    }
+
+    const provided = signature.trim().replace(/^sha256=/i, '');
+    const isValid = CONFIG.REVALIDATE_WEBHOOK_SECRETS.some((secret) => {
+        const digest = crypto.createHmac('sha256', secret).update(payload).digest();
+        return safeEqual(digest.toString('hex'), provided.toLowerCase()) || safeEqual(digest.toString('base64'), provided);
+    });
+
+    return isValid ? null : 'Invalid signature';
+};
+
 /**
  * Authentication middleware for revalidate endpoint
- * Requires API key in production, optional in development
+ * Accepts a signed webhook (REVALIDATE_WEBHOOK_SECRETS) or an API key (REVALIDATE_API_KEY).
+ * One of them is required in production, both are optional in development.
  */
 export const revalidateAuth = (req: Request, res: Response, next: NextFunction): void => {
     const apiKey = CONFIG.REVALIDATE_API_KEY;
+    const webhookSecrets = CONFIG.REVALIDATE_WEBHOOK_SECRETS;
 
-    // In development, allow requests without API key if none is configured
-    if (isDevelopment && !apiKey) {
+    // In development, allow unauthenticated requests if no credentials are configured
+    if (isDevelopment && !apiKey && webhookSecrets.length === 0) {
         return next();
     }
 
-    // In production, API key is required
-    if (!apiKey) {
-        console.error('[Security] REVALIDATE_API_KEY not configured in production');
+    // In production, an API key or webhook secrets are required
+    if (!apiKey && webhookSecrets.length === 0) {
+        console.error('[Security] REVALIDATE_API_KEY or REVALIDATE_WEBHOOK_SECRETS not configured in production');
         res.status(503).json({
             success: false,
             error: 'Revalidation endpoint not configured',
@@ -120,6 +164,31 @@ export const revalidateAuth = (req: Request, res: Response, next: NextFunction):
         return;
     }
 
+    // Signed webhooks
+    const signature = req.get(CONFIG.REVALIDATE_SIGNATURE_HEADER);
+    if (signature && webhookSecrets.length > 0) {
+        const reason = verifyWebhookSignature(req, signature);
+        if (reason) {
+            console.warn(`[Security] Invalid webhook signature for revalidate endpoint: ${reason}`);
+            res.status(401).json({
+                success: false,
+                error: 'Invalid webhook signature',
+                message: reason,
+            });
+            return;
+        }
+        return next();
+    }
+
+    if (!apiKey) {
+        res.status(401).json({
+            success: false,
+            error: 'Authentication required',
+            message: `Sign the request body in the ${CONFIG.REVALIDATE_SIGNATURE_HEADER} header`,
+        });
+        return;
+    }
+
     // Check for API key in Authorization header (Bearer token) or X-API-Key header
     const authHeader = req.headers.authorization;
     const apiKeyHeader = req.headers['x-api-key'];
@@ -142,8 +211,7 @@ export const revalidateAuth = (req: Request, res: Response, next: NextFunction):
     }
 
     // Use timing-safe comparison to prevent timing attacks
-    const isValid = providedKey.length === apiKey.length &&
-        crypto.timingSafeEqual(Buffer.from(providedKey), Buffer.from(apiKey));
+    const isValid = safeEqual(providedKey, apiKey);
 
     if (!isValid) {
         console.warn('[Security] Invalid API key attempt for revalidate endpoint');
@@ -174,6 +242,30 @@ export const revalidateEndpoint = async (req: Request, res: Response): Promise<v
     }
 };
 
+/**
+ * Revalidation status endpoint: the job a revalidate request returned, with a
+ * result per path once it has finished
+ */
+export const revalidationStatus = (req: Request, res: Response): void => {
+    const job = getRevalidationJob(String(req.params.jobId));
+
+    if (!job) {
+        const errorResponse: ApiResponse = {
+            success: false,
+            error: 'Job not found',
+            message: 'Unknown job id, or the job finished too long ago',
+        };
+        res.status(404).json(errorResponse);
+        return;
+    }
+
+    const response: ApiResponse<RevalidationJob & Partial<JobSummary>> = {
+        success: true,
+        data: job.finishedAt ? { ...job, ...summarizeJob(job) } : job,
+    };
+    res.json(response);
+};
+
 /**
  * Scans the static directory for available HTML pages
  * @returns {Promise<Array>} Array of available page paths
@@ -217,8 +309,9 @@ export const registerApiRoutes = (app: Express): void => {
     app.get('/health', healthCheck);
     app.get('/api/pages', listPages);
     app.post('/revalidate', revalidateLimiter, revalidateAuth, (req, _res, next) => {
-        // Revalidation spawns child processes and can take much longer than normal requests
+        // The build is queued, but beforeRevalidate may call slow APIs and ?wait=true waits for the build
         req.setTimeout(CONFIG.REVALIDATE_REQUEST_TIMEOUT);
         next();
     }, revalidateEndpoint);
+    app.get('/revalidate/:jobId', revalidateAuth, revalidationStatus);
 };
@@ -1,90 +1,30 @@
-import { execFile as execFileCb } from "child_process";
-import { promisify } from "node:util";
 import { Request, Response } from "express";
-import { dirname } from "node:path";
-import { fileURLToPath } from "node:url";
 import path from "path";
 import fs from "fs";
 import * as os from "node:os";
-
-const execFileAsync = promisify(execFileCb);
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-
-/**
- * Maximum allowed path length to prevent buffer overflow attacks
- */
-const MAX_PATH_LENGTH = 256;
-
-/**
- * Normalize a path by stripping leading/trailing slashes.
- * Consumers typically send URL paths like "/guide-pratique" but
- * we expect bare page names like "guide-pratique".
- */
-const normalizePath = (p: string): string => p.replace(/^\/+|\/+$/g, "");
-
-/**
- * Strict path validation:
- * - Must be a string
- * - Must match safe characters only (alphanumeric, underscore, hyphen, slash)
- * - Each segment between slashes must be non-empty and alphanumeric/underscore/hyphen
- * - Must not exceed max length
- */
-const isValidPath = (p: unknown): p is string => {
-  if (typeof p !== "string") return false;
-  const normalized = normalizePath(p);
-  if (normalized.length === 0 || normalized.length > MAX_PATH_LENGTH) return false;
-  // Allow path segments separated by single slashes
-  if (!/^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/.test(normalized)) return false;
-  return true;
-};
-
-/**
- * Validate that a path resolves to a page within the pages directory.
- * Supports dynamic routes: segments that don't match a literal directory
- * are matched against [param] directories.
- */
-const isPathWithinPagesDir = (pageName: string, projectRoot: string): boolean => {
-  const pagesDir = path.resolve(projectRoot, 'src/pages');
-  const segments = pageName.split('/');
-  let currentDir = pagesDir;
-
-  try {
-    for (const segment of segments) {
-      const exactPath = path.join(currentDir, segment);
-      if (fs.existsSync(exactPath) && fs.statSync(exactPath).isDirectory()) {
-        currentDir = exactPath;
-        continue;
-      }
-
-      // Look for a dynamic [param] directory
-      const entries = fs.readdirSync(currentDir);
-      const dynamicDir = entries.find(
-        (e) => /^\[.+\]$/.test(e) && fs.statSync(path.join(currentDir, e)).isDirectory()
-      );
-      if (dynamicDir) {
-        currentDir = path.join(currentDir, dynamicDir);
-        continue;
-      }
-
-      return false;
-    }
-
-    // Ensure we stayed within pagesDir
-    return currentDir.startsWith(pagesDir + path.sep);
-  } catch {
-    return false;
-  }
-};
+import { isPathWithinPagesDir, isValidPath, MAX_PATH_LENGTH, normalizePath } from "../../helpers/pagePaths.js";
+import { getPagesForTags, loadTagsIndex } from "../../helpers/tagsIndex.js";
+import { removePages } from "../../helpers/removePages.js";
+import { BuildPlan, planHtml } from "../../scripts/build-html.js";
+import { CONFIG } from "../config/index.js";
+import type { ApiResponse } from "../routes/api.js";
+import {
+  enqueueRevalidation,
+  hasRequestSucceeded,
+  JobStatus,
+  JobSummary,
+  PathResult,
+  RevalidationJob,
+  RevalidationRequest,
+  summarizeJob,
+  waitForJob,
+} from "../utils/revalidationQueue.js";
 
 /**
- * Get environment variables for child processes.
- * Passes the full parent environment since execFileAsync already
- * prevents shell injection and the child process is our own build script.
+ * Tags are only looked up in the tags index: any non-empty string within the length limit
  */
-const getSafeEnv = (): NodeJS.ProcessEnv => {
-  return { ...process.env };
-};
+const isValidTag = (tag: unknown): tag is string =>
+  typeof tag === "string" && tag.length > 0 && tag.length <= MAX_PATH_LENGTH;
 
 /**
  * Resolve the consumer's revalidate handler file.
@@ -101,9 +41,49 @@ const resolveRevalidateHandler = (projectRoot: string): string | null => {
   return null;
 };
 
+const UNKNOWN_TAG = "No page was generated with this tag";
+
+/**
+ * A path or tag of the request that is not revalidated, and why
+ */
+interface RejectedInput {
+  field: "paths" | "tags" | "remove";
+  value: unknown;
+  reason: string;
+}
+
+/**
+ * Data of the POST /revalidate response. Build outcomes are only known when
+ * the request waited for its job (?wait=true), otherwise see GET /revalidate/:jobId.
+ */
+interface RevalidateResult extends Partial<JobSummary> {
+  jobId?: string;
+  status?: JobStatus;
+  statusUrl?: string;
+  /** Pages queued for a rebuild, tagged pages included */
+  accepted: string[] | "all";
+  tags: string[];
+  remove: string[];
+  rejected: RejectedInput[];
+  durationMs?: number;
+  results?: PathResult[];
+  error?: string;
+}
+
+/**
+ * Data of a dry run (?dryRun=true): what the request would rebuild and remove
+ */
+interface DryRunResult extends RevalidateResult, BuildPlan {
+  dryRun: true;
+  /** HTML files that would be deleted, relative to the build directory */
+  removals: string[];
+}
+
 interface RevalidateHandler {
   paths: string[];
-  afterRevalidate?: (req: Request, paths: string[]) => Promise<void>;
+  tags?: string[];
+  remove?: string[];
+  afterRevalidate?: (req: Request, paths: string[], removed: string[]) => Promise<void>;
 }
 
 /**
@@ -135,7 +115,9 @@ const importRevalidateModule = async (projectRoot: string): Promise<Record<strin
 
 /**
  * Load the consumer's revalidate handler.
- * Calls the default export to get paths and extracts the optional afterRevalidate hook.
+ * Calls beforeRevalidate to get the paths and/or tags to rebuild and the paths to remove,
+ * and extracts the optional afterRevalidate hook. When beforeRevalidate only returns a list
+ * of paths (or isn't exported), the tags and removals still come from req.body.tags and .remove.
  * Returns null if no handler file exists.
  */
 const loadRevalidateHandler = async (req: Request, projectRoot: string): Promise<RevalidateHandler | null> => {
@@ -144,18 +126,32 @@ const loadRevalidateHandler = async (req: Request, projectRoot: string): Promise
 
   const beforeFn = mod.beforeRevalidate;
   let paths: string[] | undefined;
+  let tags: string[] | undefined = req?.body?.tags;
+  let remove: string[] | undefined = req?.body?.remove;
 
   if (typeof beforeFn === 'function') {
     const result = await beforeFn(req);
-    if (!Array.isArray(result)) {
-      console.warn('[Revalidate] beforeRevalidate must return a string[]');
+    if (Array.isArray(result)) {
+      paths = result;
+    } else if (
+      result && typeof result === 'object' &&
+      (result.paths === undefined || Array.isArray(result.paths)) &&
+      (result.tags === undefined || Array.isArray(result.tags)) &&
+      (result.remove === undefined || Array.isArray(result.remove))
+    ) {
+      paths = result.paths;
+      tags = result.tags;
+      remove = result.remove;
+    } else {
+      console.warn('[Revalidate] beforeRevalidate must return a string[] or { paths?: string[], tags?: string[], remove?: string[] }');
       return null;
     }
-    paths = result;
   }
 
   return {
     paths: paths ?? [],
+    tags,
+    remove,
     afterRevalidate: typeof mod.afterRevalidate === 'function'
       ? mod.afterRevalidate as RevalidateHandler['afterRevalidate']
       : undefined,
@@ -163,55 +159,148 @@ const loadRevalidateHandler = async (req: Request, projectRoot: string): Promise
 };
 
 export const revalidate = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const projectRoot = process.cwd();
-
-    // Try consumer's custom revalidate handler first, fall back to req.body.paths
-    const handler = await loadRevalidateHandler(req, projectRoot);
-    const rawPaths = handler?.paths ?? req?.body?.paths;
-
-    // Normalize and validate paths
-    const normalizedPaths: string[] = Array.isArray(rawPaths)
-      ? rawPaths
-          .filter(isValidPath)
-          .map((p: string) => normalizePath(p))
-      : [];
-
-    const paths = normalizedPaths.filter((p: string) => isPathWithinPagesDir(p, projectRoot));
-
-    // Log any rejected paths for security monitoring
-    if (Array.isArray(rawPaths)) {
-      const rejectedPaths = rawPaths.filter((p: unknown) => !isValidPath(p));
-      if (rejectedPaths.length > 0) {
-        console.warn('[Security] Rejected invalid revalidation paths:', rejectedPaths);
-      }
+  const projectRoot = process.cwd();
+  const rejected: RejectedInput[] = [];
+
+  // Try consumer's custom revalidate handler first, fall back to req.body.paths, .tags and .remove
+  const handler = await loadRevalidateHandler(req, projectRoot);
+  const rawPaths = handler?.paths ?? req?.body?.paths;
+  const rawTags = handler ? handler.tags : req?.body?.tags;
+  const rawRemove = handler ? handler.remove : req?.body?.remove;
+
+  // Normalize and validate paths
+  const requestedPaths: string[] = [];
+  for (const value of Array.isArray(rawPaths) ? rawPaths : []) {
+    if (!isValidPath(value)) {
+      rejected.push({ field: "paths", value, reason: "Invalid path" });
+    } else if (!isPathWithinPagesDir(normalizePath(value), projectRoot)) {
+      rejected.push({ field: "paths", value, reason: "No page matches this path" });
+    } else {
+      requestedPaths.push(normalizePath(value));
     }
+  }
 
-    const cachePages = path.resolve(__dirname, "../../helpers/cachePages.mjs");
-    const buildHtmlConfig = path.resolve(__dirname, "../../scripts/build-html.mjs");
-    const env = getSafeEnv();
+  // Tags resolve to the pages whose getStaticProps returned them in the last build
+  const tagsIndex = loadTagsIndex(projectRoot);
+  const tags: string[] = [];
+  for (const value of Array.isArray(rawTags) ? rawTags : []) {
+    if (!isValidTag(value)) {
+      rejected.push({ field: "tags", value, reason: "Invalid tag" });
+    } else if (getPagesForTags(tagsIndex, [value]).length === 0) {
+      rejected.push({ field: "tags", value, reason: UNKNOWN_TAG });
+    } else {
+      tags.push(value);
+    }
+  }
+  const taggedPaths = getPagesForTags(tagsIndex, tags).filter(isValidPath);
+
+  // Removed content no longer has to resolve to a page: its source may be gone too.
+  // Only pages recorded in the build manifest are deleted.
+  const remove: string[] = [];
+  for (const value of Array.isArray(rawRemove) ? rawRemove : []) {
+    if (isValidPath(value)) {
+      remove.push(normalizePath(value));
+    } else {
+      rejected.push({ field: "remove", value, reason: "Invalid path" });
+    }
+  }
+
+  // Log any invalid input for security monitoring
+  const invalidInputs = rejected.filter((input) => input.reason.startsWith("Invalid"));
+  if (invalidInputs.length > 0) {
+    console.warn('[Security] Rejected invalid revalidation input:', invalidInputs.map((input) => input.value));
+  }
 
-    const cacheResult = await execFileAsync("node", [cachePages, ...paths], { env });
-    if (cacheResult.stdout) console.log(`stdout: ${cacheResult.stdout}`);
-    if (cacheResult.stderr) console.error(`stderr: ${cacheResult.stderr}`);
+  const paths = [...new Set([...requestedPaths, ...taggedPaths])];
+  const result: RevalidateResult = {
+    accepted: paths,
+    tags: [...new Set(tags)],
+    remove: [...new Set(remove)],
+    rejected,
+  };
+
+  // No paths means "all pages", unless the request named paths, tags or removals:
+  // when all of them were rejected, nothing is rebuilt
+  const isNamed = [rawPaths, rawTags, rawRemove].some((value) => Array.isArray(value) && value.length > 0);
+  if (paths.length === 0 && !isNamed) {
+    result.accepted = "all";
+  } else if (paths.length === 0 && remove.length === 0) {
+    // Content that no page uses is not an error, invalid paths are
+    const onlyUnknownTags = rejected.every((input) => input.reason === UNKNOWN_TAG);
+    const response: ApiResponse<RevalidateResult> = {
+      success: onlyUnknownTags,
+      ...(!onlyUnknownTags && { error: "Invalid revalidation request" }),
+      message: "Nothing to revalidate",
+      data: result,
+    };
+    res.status(onlyUnknownTags ? 200 : 400).json(response);
+    return;
+  }
 
-    const buildResult = await execFileAsync("npx", ["tsx", buildHtmlConfig, ...paths], { env });
-    if (buildResult.stdout) console.log(`stdout: ${buildResult.stdout}`);
-    if (buildResult.stderr) console.error(`stderr: ${buildResult.stderr}`);
+  // ?dryRun=true resolves the pages and their getStaticPaths without writing anything
+  if (req.query?.dryRun === "true") {
+    const plan = await planHtml(result.accepted === "all" ? [] : result.accepted);
+    const { removed, missing } = removePages(projectRoot, result.remove, true);
+    const response: ApiResponse<DryRunResult> = {
+      success: plan.failures.length === 0,
+      ...(plan.failures.length > 0 && { error: "Some pages failed to resolve" }),
+      message: "Dry run: nothing was written",
+      data: {
+        ...result,
+        dryRun: true,
+        ...plan,
+        notGenerated: [...plan.notGenerated, ...missing],
+        removals: removed.map((pageName) => `${pageName}.html`),
+      },
+    };
+    res.status(200).json(response);
+    return;
+  }
 
-    if (handler?.afterRevalidate) {
-      await handler.afterRevalidate(req, paths);
+  // The build runs in the background: the response says which job the paths joined.
+  // afterRevalidate runs once this request's own paths are done, whatever the other
+  // requests merged into the job.
+  const request: RevalidationRequest = { paths: result.accepted, remove: result.remove };
+  const job = enqueueRevalidation(request, async (finishedJob) => {
+    if (hasRequestSucceeded(finishedJob, request) && handler?.afterRevalidate) {
+      const removed = (finishedJob.results || [])
+        .filter((pathResult) => pathResult.status === 'removed' && remove.includes(pathResult.path))
+        .map((pathResult) => pathResult.path);
+      await handler.afterRevalidate(req, paths, removed);
     }
+  });
 
-    res
-      .status(200)
-      .send(
-        `Revalidation done, paths: ${
-          paths.length > 0 ? paths.join(", ") : "all pages"
-        } built!`
-      );
-  } catch (error) {
-    console.error("Revalidation error:", error);
-    res.status(500).send("Error during revalidation.");
+  // ?wait=true answers once the job has finished, if it does before the request times out
+  let finishedJob: RevalidationJob | null = null;
+  if (req.query?.wait === "true") {
+    let timer: NodeJS.Timeout | undefined;
+    finishedJob = await Promise.race([
+      waitForJob(job),
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), Math.max(CONFIG.REVALIDATE_REQUEST_TIMEOUT - 1000, 0));
+      }),
+    ]);
+    clearTimeout(timer);
   }
+
+  Object.assign(result, {
+    jobId: job.id,
+    status: job.status,
+    statusUrl: `/revalidate/${job.id}`,
+    ...(finishedJob && {
+      ...summarizeJob(finishedJob),
+      durationMs: finishedJob.durationMs,
+      results: finishedJob.results,
+      error: finishedJob.error,
+    }),
+  });
+
+  const succeeded = !finishedJob || finishedJob.status === 'succeeded';
+  const response: ApiResponse<RevalidateResult> = {
+    success: succeeded,
+    ...(!succeeded && { error: "Revalidation failed" }),
+    message: finishedJob ? `Revalidation ${finishedJob.status}` : "Revalidation queued",
+    data: result,
+  };
+  res.status(!finishedJob ? 202 : succeeded ? 200 : 500).json(response);
 };
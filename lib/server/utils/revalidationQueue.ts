@@ -0,0 +1,273 @@
+/**
+ * Revalidation job queue
+ * Rebuilds pages one job at a time, so revalidation requests, ISR regenerations
+ * and on-demand renders never run overlapping builds writing the same files
+ */
+
+import crypto from "node:crypto";
+import { CONFIG } from "../config/index.js";
+import { BuildReport } from "../../helpers/buildReport.js";
+import { generateCacheEntries, updateCacheEntries } from "../../helpers/cachePages.js";
+import { removePages } from "../../helpers/removePages.js";
+import { buildHtml } from "../../scripts/build-html.js";
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * Outcome of one page path, from the build report
+ * - unchanged: rebuilt with the same sources and props, the HTML was kept
+ * - notGenerated: no page was produced for the path (e.g. not returned by getStaticPaths),
+ *   or there was no generated page to remove
+ */
+export type PathStatus = 'built' | 'unchanged' | 'notFound' | 'redirected' | 'removed' | 'failed' | 'notGenerated';
+
+export interface PathResult {
+    path: string;
+    status: PathStatus;
+    error?: string;
+}
+
+export interface RevalidationJob {
+    id: string;
+    status: JobStatus;
+    /** Page paths to rebuild */
+    paths: string[] | 'all';
+    /** Page paths whose generated HTML is deleted, before the rebuild */
+    remove: string[];
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    /** Time spent removing and rebuilding pages, in ms */
+    durationMs?: number;
+    results?: PathResult[];
+    /** Why the build could not run at all (page failures are in `results`) */
+    error?: string;
+}
+
+/**
+ * Paths of a finished job grouped by outcome
+ */
+export interface JobSummary {
+    built: string[];
+    unchanged: string[];
+    removed: string[];
+    failed: { path: string; error?: string }[];
+}
+
+/**
+ * Called once the job has finished, whatever its status
+ */
+export type JobCallback = (job: RevalidationJob) => Promise<void> | void;
+
+/**
+ * What a revalidation asks for: pages to rebuild (or "all") and pages to remove
+ */
+export interface RevalidationRequest {
+    paths: string[] | 'all';
+    remove?: string[];
+}
+
+/**
+ * Finished jobs kept for the status endpoint, oldest evicted first
+ */
+const MAX_FINISHED_JOBS = 100;
+
+const jobs = new Map<string, RevalidationJob>();
+const callbacks = new Map<string, JobCallback[]>();
+
+/**
+ * The next job to run. Requests arriving while a job is running are merged
+ * into it, so a burst of webhooks results in a single build.
+ */
+let pendingJob: RevalidationJob | null = null;
+let isRunning = false;
+
+/**
+ * Refresh the page cache and build the HTML of the given page paths (all pages
+ * when empty), in the server process: page modules are re-imported on each build.
+ * The cache entries of the other pages are kept.
+ * @returns The build report, which lists failed pages
+ * @throws If the build could not run at all
+ */
+export const rebuildPages = async (paths: string[]): Promise<BuildReport> => {
+    if (paths.length > 0) {
+        await updateCacheEntries(CONFIG.PROJECT_ROOT, paths);
+    } else {
+        generateCacheEntries(CONFIG.PROJECT_ROOT);
+    }
+    return buildHtml(paths);
+};
+
+/**
+ * Map the build report to the requested paths (every page of the report for "all pages")
+ */
+const getPathResults = (paths: string[] | 'all', report: BuildReport): PathResult[] => {
+    const failures = new Map(report.failures.map((failure) => [failure.pageName, failure.error]));
+    const statuses: [string[], PathStatus][] = [
+        [report.built, 'built'],
+        [report.skipped, 'unchanged'],
+        [report.notFound, 'notFound'],
+        [report.redirected, 'redirected'],
+        [[...failures.keys()], 'failed'],
+    ];
+
+    const requested = paths === 'all' ? statuses.flatMap(([pageNames]) => pageNames).sort() : paths;
+
+    return requested.map((pagePath) => {
+        if (failures.has(pagePath)) {
+            return { path: pagePath, status: 'failed', error: failures.get(pagePath) };
+        }
+        const match = statuses.find(([pageNames]) => pageNames.includes(pagePath));
+        return { path: pagePath, status: match ? match[1] : 'notGenerated' };
+    });
+};
+
+const evictFinishedJobs = (): void => {
+    const finished = [...jobs.values()].filter((job) => job.status === 'succeeded' || job.status === 'failed');
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+        jobs.delete(job.id);
+    }
+};
+
+/**
+ * Single worker: runs the pending job, then the one merged while it was running
+ */
+const processQueue = async (): Promise<void> => {
+    if (isRunning || !pendingJob) return;
+
+    const job = pendingJob;
+    pendingJob = null;
+    isRunning = true;
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    const startedAt = Date.now();
+
+    try {
+        job.results = [];
+
+        if (job.remove.length > 0) {
+            const { removed, missing } = removePages(CONFIG.PROJECT_ROOT, job.remove);
+            job.results.push(
+                ...removed.map((pagePath): PathResult => ({ path: pagePath, status: 'removed' })),
+                ...missing.map((pagePath): PathResult => ({ path: pagePath, status: 'notGenerated' }))
+            );
+        }
+
+        if (job.paths === 'all' || job.paths.length > 0) {
+            const report = await rebuildPages(job.paths === 'all' ? [] : job.paths);
+            job.results.push(...getPathResults(job.paths, report));
+        }
+
+        job.status = job.results.some((result) => result.status === 'failed') ? 'failed' : 'succeeded';
+    } catch (error) {
+        console.error(`[Revalidate] Job ${job.id} failed:`, error);
+        job.status = 'failed';
+        job.error = (error as Error).message;
+    }
+
+    job.finishedAt = new Date().toISOString();
+    job.durationMs = Date.now() - startedAt;
+
+    const { built, failed } = summarizeJob(job);
+    console.log(
+        `[Revalidate] Job ${job.id} ${job.status} in ${job.durationMs}ms: ` +
+        `${built.length} built, ${failed.length} failed`
+    );
+
+    for (const callback of callbacks.get(job.id) || []) {
+        try {
+            await callback(job);
+        } catch (error) {
+            console.error(`[Revalidate] Job ${job.id} callback failed:`, error);
+        }
+    }
+    callbacks.delete(job.id);
+
+    evictFinishedJobs();
+    isRunning = false;
+    void processQueue();
+};
+
+/**
+ * Queue a rebuild and/or removal of pages. Paths already waiting in the queue
+ * are not processed twice: the request joins the pending job.
+ * @param onComplete - Called once the job has finished
+ * @returns The job the paths were added to
+ */
+export const enqueueRevalidation = (request: RevalidationRequest, onComplete?: JobCallback): RevalidationJob => {
+    const { paths, remove = [] } = request;
+    let job = pendingJob;
+
+    if (job) {
+        // "All pages" absorbs any list of paths
+        job.paths = job.paths === 'all' || paths === 'all'
+            ? 'all'
+            : [...new Set([...job.paths, ...paths])].sort();
+        job.remove = [...new Set([...job.remove, ...remove])].sort();
+    } else {
+        job = {
+            id: crypto.randomUUID(),
+            status: 'queued',
+            paths: paths === 'all' ? 'all' : [...new Set(paths)].sort(),
+            remove: [...new Set(remove)].sort(),
+            createdAt: new Date().toISOString(),
+        };
+        jobs.set(job.id, job);
+        pendingJob = job;
+    }
+
+    if (onComplete) {
+        callbacks.set(job.id, [...(callbacks.get(job.id) || []), onComplete]);
+    }
+
+    void processQueue();
+    return job;
+};
+
+/**
+ * Wait for a job to finish
+ */
+export const waitForJob = (job: RevalidationJob): Promise<RevalidationJob> => {
+    if (job.status === 'succeeded' || job.status === 'failed') {
+        return Promise.resolve(job);
+    }
+    return new Promise((resolve) => {
+        callbacks.set(job.id, [...(callbacks.get(job.id) || []), resolve]);
+    });
+};
+
+/**
+ * Whether one of the requests merged into a finished job succeeded: the job could run,
+ * and none of the paths the request rebuilt or removed failed (for "all pages", none
+ * of the job's). A failure on a path another request asked for doesn't fail it.
+ */
+export const hasRequestSucceeded = (job: RevalidationJob, request: RevalidationRequest): boolean => {
+    if (job.error) return false;
+    if (request.paths === 'all') return job.status === 'succeeded';
+
+    const requested = new Set([...request.paths, ...(request.remove || [])]);
+    return !(job.results || []).some((result) => result.status === 'failed' && requested.has(result.path));
+};
+
+/**
+ * Group the per-path results of a job by outcome
+ */
+export const summarizeJob = (job: RevalidationJob): JobSummary => {
+    const results = job.results || [];
+    const withStatus = (status: PathStatus) => results.filter((result) => result.status === status).map((result) => result.path);
+
+    return {
+        built: withStatus('built'),
+        unchanged: withStatus('unchanged'),
+        removed: withStatus('removed'),
+        failed: results
+            .filter((result) => result.status === 'failed')
+            .map((result) => ({ path: result.path, error: result.error })),
+    };
+};
+
+/**
+ * Get a job by id, or undefined if it is unknown or was evicted
+ */
+export const getRevalidationJob = (jobId: string): RevalidationJob | undefined => jobs.get(jobId);
@@ -8,6 +8,7 @@ import { Express } from "express";
 import { isDevelopment, CONFIG } from "../config/index.js";
 import { registerJavaScriptMiddleware, registerCSSMiddleware } from "../middleware/runtime.js";
 import { loadCacheEntries } from "../../helpers/cachePages.js";
+import { getRouteFileKey } from "../../helpers/routeSegments.js";
 import { addHydrationCodePlugin } from "../config/vite.plugin.js";
 import path from "path";
 
@@ -31,7 +32,7 @@ export const initializeViteServer = async (app: Express): Promise<ViteDevServer
             // Sanitize entry keys for Rollup: strip dynamic segments [param]
             const sanitizedEntries: Record<string, string> = Object.fromEntries(
                 Object.entries(entries as Record<string, string>).map(([key, value]) => [
-                    key.replace(/\[([^\]]+)\]/g, '$1'),
+                    getRouteFileKey(key),
                     value
                 ])
             );
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import React from "react";
+import { HeadCollector, injectHeadIntoHtml } from "../components/HeadManager.js";
+
+const h = React.createElement;
+
+const LAYOUT_HTML =
+  '<html><head><title>Site</title><meta name="description" content="layout"/></head><body><main></main></body></html>';
+
+const Seo = ({ title, description }: { title: string; description: string }) =>
+  h(React.Fragment, null, h("title", null, title), h("meta", { name: "description", content: description }));
+
+describe("injectHeadIntoHtml", () => {
+  it("merges the elements rendered by a component", () => {
+    const collector: HeadCollector = [{ children: h(Seo, { title: "Post", description: "page" }), depth: 1 }];
+    const html = injectHeadIntoHtml(LAYOUT_HTML, collector);
+
+    assert.match(html, /<title>Post<\/title>/);
+    assert.match(html, /<meta name="description" content="page"\/>/);
+    assert.doesNotMatch(html, /Site|content="layout"/);
+  });
+
+  it("merges the elements of a fragment", () => {
+    const children = h(
+      React.Fragment,
+      null,
+      h("title", null, "Post"),
+      h(React.Fragment, null, h("link", { rel: "canonical", href: "https://example.com/post" }), h("html", { lang: "en" }))
+    );
+    const html = injectHeadIntoHtml(LAYOUT_HTML, [{ children, depth: 1 }]);
+
+    assert.match(html, /<html lang="en">/);
+    assert.match(html, /<title>Post<\/title>/);
+    assert.match(html, /<link rel="canonical" href="https:\/\/example.com\/post"\/><\/head>/);
+    assert.doesNotMatch(html, /Site/);
+  });
+
+  it("keys elements by their attributes before their React key", () => {
+    const collector: HeadCollector = [
+      { children: [h("meta", { key: 0, name: "description", content: "layout" })], depth: 0 },
+      { children: [h("meta", { key: 0, property: "og:title", content: "Post" })], depth: 1 },
+    ];
+    const html = injectHeadIntoHtml("<html><head></head><body></body></html>", collector);
+
+    assert.match(html, /<meta name="description" content="layout"\/>/);
+    assert.match(html, /<meta property="og:title" content="Post"\/>/);
+  });
+
+  it("scopes React keys by tag name", () => {
+    const collector: HeadCollector = [
+      { children: [h("script", { key: "ld", type: "application/ld+json" }, "{}"), h("style", { key: "ld" }, "main{}")], depth: 0 },
+      { children: h("script", { key: "ld", type: "application/ld+json" }, '{"@type":"Article"}'), depth: 1 },
+    ];
+    const html = injectHeadIntoHtml("<html><head></head><body></body></html>", collector);
+
+    assert.match(html, /<style>main\{\}<\/style>/);
+    assert.match(html, /<script type="application\/ld\+json">\{"@type":"Article"\}<\/script>/);
+    assert.doesNotMatch(html, /json">\{\}</);
+  });
+});
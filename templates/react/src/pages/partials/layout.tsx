@@ -1,5 +1,8 @@
 import React from "react";
 
+// Partials are HTML fragments: don't wrap them in the <html> shell of the root layout
+export const inheritLayouts = false;
+
 export const Layout: React.FC<{ children: React.ReactNode }> = ({children}) => {
     return (
         <div data-layout="partials">
@@ -7,29 +7,36 @@ import { Request } from "express";
  * read the request body, call an external API, or apply any custom logic.
  * process.env is available (including vars from .env files).
  *
- * Return a string[] of page paths (e.g. ["home", "partials/page1"]).
- * Return an empty array to rebuild all pages.
+ * Return { paths, tags, remove }: page paths to rebuild (e.g. ["home", "partials/page1"]),
+ * tags returned by getStaticProps, resolved to the pages built with them, and page
+ * paths whose HTML is deleted (e.g. unpublished content).
+ * Return none of them to rebuild all pages. A plain string[] of page paths is
+ * accepted too, the tags and removals then coming from req.body.tags and req.body.remove.
  *
- * If this file does not exist, StaticJS falls back to req.body.paths.
+ * If this file does not exist, StaticJS falls back to req.body.paths, .tags and .remove.
  */
-export async function beforeRevalidate(req: Request): Promise<string[]> {
-    const paths = req.body?.paths;
+export async function beforeRevalidate(req: Request): Promise<{ paths?: string[]; tags?: string[]; remove?: string[] }> {
+    const { paths, tags, remove } = req.body ?? {};
 
-    if (!Array.isArray(paths)) {
-        return [];
-    }
-
-    return paths;
+    return {
+        paths: Array.isArray(paths) ? paths : undefined,
+        tags: Array.isArray(tags) ? tags : undefined,
+        remove: Array.isArray(remove) ? remove : undefined,
+    };
 }
 
 /**
- * Called after pages have been rebuilt.
+ * Called once the pages of this request have been rebuilt and removed.
  * Use it to purge a CDN cache, notify a webhook, log metrics, etc.
  * process.env is available (including vars from .env files).
  *
  * @param req - The original Express request
- * @param paths - The paths that were rebuilt (empty = all pages)
+ * @param paths - The paths that were rebuilt, tagged pages included (empty = all pages)
+ * @param removed - The paths whose generated HTML was deleted
  */
-export async function afterRevalidate(req: Request, paths: string[]): Promise<void> {
+export async function afterRevalidate(req: Request, paths: string[], removed: string[]): Promise<void> {
     console.log(`[afterRevalidate] Rebuilt: ${paths.length > 0 ? paths.join(", ") : "all pages"}`);
+    if (removed.length > 0) {
+        console.log(`[afterRevalidate] Removed: ${removed.join(", ")}`);
+    }
 }